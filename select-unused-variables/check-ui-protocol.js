@@ -0,0 +1,70 @@
+// Type-checks the messages ui.html exchanges with the plugin against the
+// UIMessage / PluginMessage unions in code.ts. The UI script is plain
+// JavaScript, so only the protocol is checked: postToPlugin arguments, the
+// cases of the message switch and the fields read from a received message.
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const root = __dirname;
+const html = fs.readFileSync(path.join(root, 'ui.html'), 'utf8');
+const scripts = [...html.matchAll(/<script>([\s\S]*?)<\/script>/g)];
+const script = scripts[scripts.length - 1];
+const scriptLine = html.slice(0, script.index + '<script>'.length).split('\n').length - 1;
+const uiFile = path.join(root, 'ui.html.js');
+
+const config = ts.getParsedCommandLineOfConfigFile(path.join(root, 'tsconfig.json'), {}, {
+  ...ts.sys,
+  onUnRecoverableConfigFileDiagnostic: diagnostic => { throw new Error(ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')); }
+});
+// code.ts is checked strictly by tsc. Null checks stay on so messages narrow
+// like they do in code.ts; implicit any is allowed in the untyped UI code
+const options = { ...config.options, allowJs: true, checkJs: true, noEmit: true, noImplicitAny: false };
+const host = ts.createCompilerHost(options);
+const readFile = host.readFile;
+host.readFile = fileName => fileName === uiFile ? script[1] : readFile(fileName);
+host.fileExists = fileName => fileName === uiFile || ts.sys.fileExists(fileName);
+const getSourceFile = host.getSourceFile;
+host.getSourceFile = (fileName, languageVersion) => fileName === uiFile
+  ? ts.createSourceFile(fileName, script[1], languageVersion, true, ts.ScriptKind.JS)
+  : getSourceFile(fileName, languageVersion);
+
+const program = ts.createProgram([path.join(root, 'code.ts'), uiFile], options, host);
+const source = program.getSourceFile(uiFile);
+
+// Errors of the UI code inside a message rather than of the message itself:
+// fields of elements typed as HTMLElement, and elements that may be missing
+const UI_ERRORS = new Set([2339, 2551, 2531, 2532, 2533, 18047, 18048, 18049]);
+
+// Spans of the UI script that belong to the protocol, with the errors that count there
+const spans = [];
+const visit = node => {
+  if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'postToPlugin') {
+    node.arguments.forEach(arg => spans.push({ start: arg.getStart(source), end: arg.end, ignored: UI_ERRORS }));
+  }
+  if (ts.isSwitchStatement(node) && node.expression.getText(source) === 'msg.type') {
+    node.caseBlock.clauses.filter(ts.isCaseClause).forEach(clause => {
+      spans.push({ start: clause.expression.getStart(source), end: clause.expression.end });
+    });
+  }
+  if (ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'msg') {
+    spans.push({ start: node.name.getStart(source), end: node.name.end });
+  }
+  ts.forEachChild(node, visit);
+};
+visit(source);
+
+const errors = ts.getPreEmitDiagnostics(program)
+  .filter(diagnostic => diagnostic.file === source)
+  .filter(diagnostic => spans.some(({ start, end, ignored }) =>
+    diagnostic.start >= start && diagnostic.start < end && !(ignored && ignored.has(diagnostic.code))
+  ));
+
+errors.forEach(diagnostic => {
+  const { line, character } = source.getLineAndCharacterOfPosition(diagnostic.start);
+  console.error(`ui.html:${scriptLine + line + 1}:${character + 1} ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n  ')}`);
+});
+if (errors.length) {
+  process.exit(1);
+}
+console.log('✅ ui.html messages match the protocol in code.ts');
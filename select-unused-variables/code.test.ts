@@ -3,19 +3,26 @@ declare const describe: (name: string, fn: () => void) => void;
 declare const test: (name: string, fn: () => void | Promise<void>) => void;
 declare const expect: any;
 declare const beforeEach: (fn: () => void) => void;
+declare const afterEach: (fn: () => void) => void;
 
 // Add jest namespace declaration
 declare namespace jest {
   function clearAllMocks(): void;
-  function fn(): Mock;
+  function fn(implementation?: (...args: any[]) => any): Mock;
 }
 
 type Mock<T = any> = {
   (...args: any[]): T;
   mockReturnValue: (value: T) => Mock<T>;
   mockImplementation: (fn: (...args: any[]) => T) => Mock<T>;
+  mockImplementationOnce: (fn: (...args: any[]) => T) => Mock<T>;
+  mockClear: () => Mock<T>;
+  mock: { calls: any[][] };
 };
 
+declare const require: (id: string) => any;
+declare const __dirname: string;
+
 // Define our test types
 interface MockVariable {
   id: string;
@@ -28,28 +35,168 @@ interface MockFigma {
   variables: {
     getLocalVariables: Mock;
     getVariableCollectionById: Mock;
+    getLocalVariableCollections: Mock;
+    getVariableById: Mock;
+    createVariable: Mock;
+    createVariableCollection: Mock;
+    createVariableAlias: Mock;
+    setBoundVariableForPaint: Mock;
+    setBoundVariableForEffect: Mock;
+    setBoundVariableForLayoutGrid: Mock;
   };
   root: {
     children: any[];
+    pluginData: { [key: string]: string };
+    setPluginData: Mock;
+    getPluginData: Mock;
+    getPluginDataKeys: Mock;
+    sharedPluginData: { [key: string]: string };
+    setSharedPluginData: Mock;
+    getSharedPluginData: Mock;
+  };
+  clientStorage: {
+    storage: { [key: string]: any };
+    getAsync: Mock;
+    setAsync: Mock;
+    deleteAsync: Mock;
+    keysAsync: Mock;
+  };
+  fileKey?: string;
+  currentPage: any;
+  viewport: {
+    bounds: { x: number; y: number; width: number; height: number };
+    scrollAndZoomIntoView: Mock;
+  };
+  getNodeById: Mock;
+  ui: {
+    postMessage: Mock;
+    onmessage: ((msg: any) => void) | null;
   };
+  showUI: Mock;
+  on: Mock;
+  getStyleById: Mock;
+  getLocalTextStyles: Mock;
+  getLocalPaintStyles: Mock;
+  getLocalEffectStyles: Mock;
+  getLocalGridStyles: Mock;
   notify: Mock;
   createText: Mock;
+  createFrame: Mock;
+  createRectangle: Mock;
+  commitUndo: Mock;
+  loadFontAsync: Mock;
+  mixed: symbol;
 }
 
 const mockFigma: MockFigma = {
   variables: {
-    getLocalVariables: (() => []) as Mock,
-    getVariableCollectionById: (() => null) as Mock
+    getLocalVariables: jest.fn().mockReturnValue([]),
+    getVariableCollectionById: jest.fn().mockReturnValue(null),
+    getLocalVariableCollections: jest.fn().mockReturnValue([]),
+    getVariableById: jest.fn().mockReturnValue(null),
+    createVariable: jest.fn(),
+    createVariableCollection: jest.fn(),
+    createVariableAlias: jest.fn(),
+    setBoundVariableForPaint: jest.fn(),
+    setBoundVariableForEffect: jest.fn(),
+    setBoundVariableForLayoutGrid: jest.fn()
   },
   root: {
-    children: []
+    children: [],
+    pluginData: {},
+    // Plugin data is kept in memory; an empty value deletes the key as in Figma
+    setPluginData: jest.fn((key: string, value: string) => {
+      if (value) mockFigma.root.pluginData[key] = value;
+      else delete mockFigma.root.pluginData[key];
+    }),
+    getPluginData: jest.fn((key: string) => mockFigma.root.pluginData[key] || ''),
+    getPluginDataKeys: jest.fn(() => Object.keys(mockFigma.root.pluginData)),
+    sharedPluginData: {},
+    setSharedPluginData: jest.fn((namespace: string, key: string, value: string) => {
+      if (value) mockFigma.root.sharedPluginData[`${namespace}:${key}`] = value;
+      else delete mockFigma.root.sharedPluginData[`${namespace}:${key}`];
+    }),
+    getSharedPluginData: jest.fn((namespace: string, key: string) => mockFigma.root.sharedPluginData[`${namespace}:${key}`] || '')
+  },
+  // Client storage is kept in memory and emptied before every test
+  clientStorage: {
+    storage: {},
+    getAsync: jest.fn(async (key: string) => mockFigma.clientStorage.storage[key]),
+    setAsync: jest.fn(async (key: string, value: any) => { mockFigma.clientStorage.storage[key] = JSON.parse(JSON.stringify(value)); }),
+    deleteAsync: jest.fn(async (key: string) => { delete mockFigma.clientStorage.storage[key]; }),
+    keysAsync: jest.fn(async () => Object.keys(mockFigma.clientStorage.storage))
+  },
+  fileKey: 'file1',
+  currentPage: { id: 'page1', name: 'Page 1', selection: [], children: [] },
+  viewport: {
+    bounds: { x: 0, y: 0, width: 1000, height: 800 },
+    scrollAndZoomIntoView: jest.fn()
+  },
+  getNodeById: jest.fn().mockReturnValue(null),
+  ui: {
+    postMessage: jest.fn(),
+    onmessage: null
   },
-  notify: (() => {}) as Mock,
-  createText: (() => {}) as Mock
+  showUI: jest.fn(),
+  on: jest.fn(),
+  getStyleById: jest.fn().mockReturnValue(null),
+  getLocalTextStyles: jest.fn().mockReturnValue([]),
+  getLocalPaintStyles: jest.fn().mockReturnValue([]),
+  getLocalEffectStyles: jest.fn().mockReturnValue([]),
+  getLocalGridStyles: jest.fn().mockReturnValue([]),
+  notify: jest.fn(),
+  createText: jest.fn(),
+  createFrame: jest.fn(),
+  createRectangle: jest.fn(),
+  commitUndo: jest.fn(),
+  loadFontAsync: jest.fn(),
+  mixed: Symbol('mixed')
 };
 
 // Make figma available globally without using declare global
 (globalThis as any).figma = mockFigma;
+(globalThis as any).__html__ = '';
+
+// code.ts is a plain plugin script, so evaluate it in the global scope
+// to expose its functions the same way Figma does
+const ts = require('typescript');
+const fs = require('fs');
+const path = require('path');
+(0, eval)(ts.transpile(
+  fs.readFileSync(path.join(__dirname, 'code.ts'), 'utf8'),
+  { target: ts.ScriptTarget.ES2018 }
+));
+
+beforeEach(() => {
+  mockFigma.clientStorage.storage = {};
+  mockFigma.root.sharedPluginData = {};
+});
+
+// Fixtures shared by every suite
+const alias = (id: string) => ({ type: 'VARIABLE_ALIAS', id });
+
+/** Publish status of a local variable that was never published to the library */
+const unpublished = { getPublishStatusAsync: async () => 'UNPUBLISHED' };
+
+/**
+ * A local variable with the fields the plugin reads, overridden by fields.
+ * setValueForMode writes through; remove() calls onRemove so a suite can drop
+ * the variable from its own list
+ */
+const makeVariable = (id: string, fields: any = {}, onRemove: (id: string) => void = () => {}): any => ({
+  id, name: id, variableCollectionId: 'col1', resolvedType: 'FLOAT', valuesByMode: {},
+  scopes: [], codeSyntax: {}, description: '', hiddenFromPublishing: false, ...unpublished,
+  setValueForMode: jest.fn(function (this: any, modeId: string, value: any) { this.valuesByMode[modeId] = value; }),
+  setVariableCodeSyntax: jest.fn(),
+  remove: jest.fn(() => onRemove(id)),
+  ...fields
+});
+
+/** A local collection with a single default mode, overridden by fields */
+const makeCollection = (id: string, fields: any = {}): any => ({
+  id, name: id, defaultModeId: 'm1', modes: [{ modeId: 'm1', name: 'Default' }], variableIds: [], hiddenFromPublishing: false,
+  ...fields
+});
 
 describe('Variable Scanner', () => {
   beforeEach(() => {
@@ -64,8 +211,8 @@ describe('Variable Scanner', () => {
 
   test('getAllVariables should process variables correctly', async () => {
     const mockVariables: MockVariable[] = [
-      { id: '1', name: 'var1', variableCollectionId: 'col1', scopes: ['all'] },
-      { id: '2', name: 'var2', variableCollectionId: 'col2', scopes: ['all'] }
+      { ...unpublished, id: '1', name: 'var1', variableCollectionId: 'col1', scopes: ['all'] },
+      { ...unpublished, id: '2', name: 'var2', variableCollectionId: 'col2', scopes: ['all'] }
     ];
     
     mockFigma.variables.getLocalVariables.mockReturnValue(mockVariables);
@@ -90,8 +237,8 @@ describe('Variable Scanner', () => {
 
   test('findUnusedVariables should identify unused variables', async () => {
     const mockVariables: MockVariable[] = [
-      { id: 'used', name: 'UsedVar', variableCollectionId: 'col1', scopes: [] },
-      { id: 'unused', name: 'UnusedVar', variableCollectionId: 'col1', scopes: [] }
+      { ...unpublished, id: 'used', name: 'UsedVar', variableCollectionId: 'col1', scopes: [] },
+      { ...unpublished, id: 'unused', name: 'UnusedVar', variableCollectionId: 'col1', scopes: [] }
     ];
 
     const mockNodes = [{
@@ -105,7 +252,7 @@ describe('Variable Scanner', () => {
     mockFigma.variables.getLocalVariables.mockReturnValue(mockVariables);
     mockFigma.variables.getVariableCollectionById
       .mockReturnValue({ name: 'TestCollection' });
-    mockFigma.root.children = [{ findAll: () => mockNodes }];
+    mockFigma.root.children = [{ children: mockNodes }];
 
     const unusedVars = await findUnusedVariables();
     expect(unusedVars).toHaveLength(1);
@@ -114,9 +261,9 @@ describe('Variable Scanner', () => {
 
   test('findUnusedVariables should filter by selected collections', async () => {
     const mockVariables: MockVariable[] = [
-      { id: 'var1', name: 'Var1', variableCollectionId: 'col1', scopes: [] },
-      { id: 'var2', name: 'Var2', variableCollectionId: 'col2', scopes: [] },
-      { id: 'var3', name: 'Var3', variableCollectionId: 'col1', scopes: [] }
+      { ...unpublished, id: 'var1', name: 'Var1', variableCollectionId: 'col1', scopes: [] },
+      { ...unpublished, id: 'var2', name: 'Var2', variableCollectionId: 'col2', scopes: [] },
+      { ...unpublished, id: 'var3', name: 'Var3', variableCollectionId: 'col1', scopes: [] }
     ];
 
     const mockNodes = [{
@@ -130,7 +277,7 @@ describe('Variable Scanner', () => {
     mockFigma.variables.getLocalVariables.mockReturnValue(mockVariables);
     mockFigma.variables.getVariableCollectionById
       .mockImplementation((id: string) => ({ name: `Collection ${id}` }));
-    mockFigma.root.children = [{ findAll: () => mockNodes }];
+    mockFigma.root.children = [{ children: mockNodes }];
 
     // Test filtering by col1
     const unusedInCol1 = await findUnusedVariables(['col1']);
@@ -147,4 +294,1900 @@ describe('Variable Scanner', () => {
     expect(allUnused).toHaveLength(2);
     expect(allUnused.map(v => v.id)).toEqual(expect.arrayContaining(['var2', 'var3']));
   });
-});
\ No newline at end of file
+});
+
+describe('Variable Usage Index', () => {
+  const primitive = {
+    ...unpublished,
+    id: 'primitive', name: 'blue/500', variableCollectionId: 'col1', scopes: [],
+    resolvedType: 'COLOR', valuesByMode: { m1: { r: 0, g: 0, b: 1 } }
+  };
+  const semantic = {
+    ...unpublished,
+    id: 'semantic', name: 'link', variableCollectionId: 'col1', scopes: [],
+    resolvedType: 'COLOR', valuesByMode: { m1: alias('primitive') }
+  };
+  const styled = {
+    ...unpublished,
+    id: 'styled', name: 'surface', variableCollectionId: 'col1', scopes: [],
+    resolvedType: 'COLOR', valuesByMode: { m1: { r: 1, g: 1, b: 1 } }
+  };
+  const orphan = {
+    ...unpublished,
+    id: 'orphan', name: 'orphan', variableCollectionId: 'col1', scopes: [],
+    resolvedType: 'COLOR', valuesByMode: { m1: { r: 1, g: 0, b: 0 } }
+  };
+  const variables = [primitive, semantic, styled, orphan];
+
+  const nodes = [
+    {
+      id: '1:1', name: 'Link', type: 'TEXT',
+      boundVariables: { fills: [alias('semantic')] }
+    },
+    { id: '1:2', name: 'Card', type: 'FRAME', fillStyleId: 'S:card' }
+  ];
+
+  beforeEach(() => {
+    mockFigma.variables.getLocalVariables.mockReturnValue(variables);
+    mockFigma.variables.getVariableById
+      .mockImplementation((id: string) => variables.find(v => v.id === id) || null);
+    mockFigma.variables.getVariableCollectionById.mockReturnValue({ name: 'Colors' });
+    mockFigma.variables.getLocalVariableCollections.mockReturnValue([
+      { id: 'col1', name: 'Colors', variableIds: variables.map(v => v.id) }
+    ]);
+    mockFigma.getStyleById.mockImplementation((id: string) => id === 'S:card' ? {
+      id: 'S:card',
+      name: 'Card',
+      paints: [{ type: 'SOLID', boundVariables: { color: alias('styled') } }]
+    } : null);
+    mockFigma.root.children = [{ id: 'page1', name: 'Page 1', children: nodes }];
+  });
+
+  test('records direct, style and alias usages with page and property path', async () => {
+    const index = await buildVariableUsageIndex();
+
+    expect(getVariableUsages(index, 'semantic')).toEqual([expect.objectContaining({
+      nodeId: '1:1', pageName: 'Page 1', property: 'boundVariables.fills[0]', kind: 'direct'
+    })]);
+    expect(getVariableUsages(index, 'primitive')).toEqual([expect.objectContaining({
+      nodeId: '1:1', kind: 'alias', via: 'semantic'
+    })]);
+    expect(getVariableUsages(index, 'styled')).toEqual([expect.objectContaining({
+      nodeId: '1:2', property: 'fillStyleId.paints[0].boundVariables.color', kind: 'style', via: 'S:card'
+    })]);
+    expect(getVariableUsages(index, 'orphan')).toHaveLength(0);
+  });
+
+  test('mapDesignVariables and findUnusedVariables read the same index', async () => {
+    const unused = await findUnusedVariables();
+    const designMap = await mapDesignVariables();
+
+    expect(unused.map(v => v.id)).toEqual(['orphan']);
+    expect(designMap.colors.get('orphan')?.usages).toHaveLength(0);
+    expect(designMap.colors.get('semantic')?.usages).toEqual([
+      {
+        nodeId: '1:1', nodeName: 'Link', nodeType: 'TEXT', pageId: 'page1', pageName: 'Page 1',
+        properties: ['boundVariables.fills[0]'], kinds: ['direct']
+      }
+    ]);
+  });
+
+  test('variables only aliased by unused variables are reported as a dead chain', async () => {
+    const linkOld = {
+      ...unpublished,
+      id: 'link-old', name: 'semantic/link-old', variableCollectionId: 'col2', scopes: [],
+      resolvedType: 'COLOR', valuesByMode: { m1: alias('blue-500'), m2: alias('blue-500') }
+    };
+    const blue500 = {
+      ...unpublished,
+      id: 'blue-500', name: 'primitive/blue-500', variableCollectionId: 'col1', scopes: [],
+      resolvedType: 'COLOR', valuesByMode: { m1: { r: 0, g: 0, b: 1 } }
+    };
+    const all = [blue500, ...variables, linkOld];
+    mockFigma.variables.getLocalVariables.mockReturnValue(all);
+    mockFigma.variables.getVariableById
+      .mockImplementation((id: string) => all.find(v => v.id === id) || null);
+
+    const result = await analyzeCollections();
+
+    expect(result.chains).toEqual([{
+      id: 'link-old',
+      variableIds: ['link-old', 'blue-500'],
+      names: ['semantic/link-old', 'primitive/blue-500']
+    }]);
+    expect(result.variables.map(v => v.id)).toEqual(['link-old', 'blue-500', 'orphan']);
+    expect(result.variables[1].chainId).toBe('link-old');
+  });
+});
+
+describe('Message handlers', () => {
+  const mockVariables: MockVariable[] = [
+    { ...unpublished, id: 'var1', name: 'Var1', variableCollectionId: 'col1', scopes: [] },
+    { ...unpublished, id: 'var2', name: 'Var2', variableCollectionId: 'col2', scopes: [] }
+  ];
+
+  beforeEach(() => {
+    mockFigma.variables.getLocalVariables.mockReturnValue(mockVariables);
+    mockFigma.variables.getVariableCollectionById
+      .mockImplementation((id: string) => ({ name: `Collection ${id}` }));
+    mockFigma.root.children = [{ children: [] }];
+  });
+
+  test('start-search replies with complete scoped to the selected collections', async () => {
+    await mockFigma.ui.onmessage!({
+      type: 'start-search', target: 'variables', collections: ['col1'], scope: { type: 'document' }
+    });
+
+    expect(mockFigma.ui.postMessage).toHaveBeenCalledWith({
+      type: 'complete',
+      target: 'variables',
+      variables: [{ id: 'var1', name: 'Var1', collection: 'Collection col1' }],
+      chains: [],
+      lowUsage: [],
+      stats: { totalVariables: 2, analyzed: 1, unused: 1 },
+      scope: { type: 'document' },
+      scopeLabel: 'Whole file',
+      partial: false,
+      incomplete: false,
+      cachedAt: null,
+      filterLabel: '',
+      protected: [],
+      published: []
+    });
+  });
+
+  test('auto-analyze replies with auto-analysis-result', async () => {
+    await mockFigma.ui.onmessage!({ type: 'auto-analyze', collections: ['col1', 'col2'] });
+
+    expect(mockFigma.ui.postMessage).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'auto-analysis-result',
+      stats: { totalVariables: 2, analyzed: 2, unused: 2 }
+    }));
+  });
+});
+
+describe('Node binding coverage', () => {
+
+  const nodeFields = [
+    'height', 'width', 'characters', 'itemSpacing',
+    'paddingLeft', 'paddingRight', 'paddingTop', 'paddingBottom',
+    'visible', 'topLeftRadius', 'topRightRadius', 'bottomLeftRadius', 'bottomRightRadius',
+    'minWidth', 'maxWidth', 'minHeight', 'maxHeight', 'counterAxisSpacing',
+    'strokeWeight', 'strokeTopWeight', 'strokeRightWeight', 'strokeBottomWeight', 'strokeLeftWeight',
+    'opacity'
+  ];
+
+  nodeFields.forEach(field => {
+    test(`detects a variable bound to ${field}`, () => {
+      const node = { type: 'FRAME', name: 'Frame', boundVariables: { [field]: alias('token') } } as any;
+      expect(getNodeAliases(node)).toEqual([{ id: 'token', path: `boundVariables.${field}` }]);
+    });
+  });
+
+  test('detects variables bound inside individual fills and strokes', () => {
+    const node = {
+      type: 'RECTANGLE',
+      name: 'Rect',
+      fills: [
+        { type: 'SOLID', boundVariables: {} },
+        { type: 'SOLID', boundVariables: { color: alias('fill') } }
+      ],
+      strokes: [{ type: 'SOLID', boundVariables: { color: alias('stroke') } }],
+      boundVariables: { fills: [alias('fill')], strokes: [alias('stroke')] }
+    } as any;
+
+    expect(getNodeAliases(node)).toEqual([
+      { id: 'fill', path: 'fills[1].boundVariables.color' },
+      { id: 'stroke', path: 'strokes[0].boundVariables.color' }
+    ]);
+  });
+
+  test('detects variables bound to gradient color stops', () => {
+    const node = {
+      type: 'RECTANGLE',
+      name: 'Gradient',
+      fills: [{
+        type: 'GRADIENT_LINEAR',
+        gradientStops: [
+          { position: 0, boundVariables: { color: alias('start') } },
+          { position: 1, boundVariables: { color: alias('end') } }
+        ]
+      }]
+    } as any;
+
+    expect(getNodeAliases(node).map((a: any) => a.id)).toEqual(['start', 'end']);
+  });
+
+  test('detects every bindable effect field', () => {
+    const node = {
+      type: 'FRAME',
+      name: 'Card',
+      effects: [{
+        type: 'DROP_SHADOW',
+        boundVariables: {
+          color: alias('shadow-color'),
+          radius: alias('shadow-radius'),
+          spread: alias('shadow-spread'),
+          offsetX: alias('shadow-x'),
+          offsetY: alias('shadow-y')
+        }
+      }]
+    } as any;
+
+    expect(getNodeAliases(node).map((a: any) => a.path)).toEqual([
+      'effects[0].boundVariables.color',
+      'effects[0].boundVariables.radius',
+      'effects[0].boundVariables.spread',
+      'effects[0].boundVariables.offsetX',
+      'effects[0].boundVariables.offsetY'
+    ]);
+  });
+
+  test('detects every bindable layout grid field', () => {
+    const node = {
+      type: 'FRAME',
+      name: 'Page',
+      layoutGrids: [{
+        pattern: 'COLUMNS',
+        boundVariables: {
+          sectionSize: alias('grid-size'),
+          count: alias('grid-count'),
+          offset: alias('grid-offset'),
+          gutterSize: alias('grid-gutter')
+        }
+      }]
+    } as any;
+
+    expect(getNodeAliases(node).map((a: any) => a.id)).toEqual([
+      'grid-size', 'grid-count', 'grid-offset', 'grid-gutter'
+    ]);
+  });
+
+  test('falls back to node-level paint bindings when items carry none', () => {
+    const node = { type: 'RECTANGLE', name: 'Rect', boundVariables: { fills: [alias('fill')] } } as any;
+    expect(getNodeAliases(node)).toEqual([{ id: 'fill', path: 'boundVariables.fills[0]' }]);
+  });
+
+  test('detects variables bound to instance component properties', () => {
+    const node = {
+      type: 'INSTANCE',
+      name: 'Button',
+      componentProperties: { 'Show icon#1:0': { type: 'BOOLEAN', value: true, boundVariables: { value: alias('flag') } } }
+    } as any;
+
+    expect(getNodeAliases(node)).toEqual([
+      { id: 'flag', path: 'componentProperties.Show icon#1:0.boundVariables.value' }
+    ]);
+  });
+});
+
+describe('Typography bindings', () => {
+  const mixed = Symbol('mixed');
+
+  test('reads typography and fill bindings of every styled text range', () => {
+    const node = {
+      type: 'TEXT',
+      name: 'Heading',
+      textStyleId: '',
+      fillStyleId: '',
+      boundVariables: { fontSize: [alias('size-lg'), alias('size-sm')] },
+      getStyledTextSegments: (fields: string[]) => fields.includes('boundVariables') ? [
+        {
+          start: 0, end: 5,
+          boundVariables: { fontSize: alias('size-lg'), fontFamily: alias('family'), lineHeight: alias('leading') },
+          fills: [{ type: 'SOLID', boundVariables: { color: alias('ink') } }]
+        },
+        {
+          start: 5, end: 12,
+          boundVariables: {
+            fontSize: alias('size-sm'), fontStyle: alias('style'), fontWeight: alias('weight'),
+            letterSpacing: alias('tracking'), paragraphSpacing: alias('para')
+          },
+          fills: []
+        }
+      ] : []
+    } as any;
+
+    expect(getNodeAliases(node)).toEqual([
+      { id: 'family', path: 'textRange[0:5].boundVariables.fontFamily' },
+      { id: 'size-lg', path: 'textRange[0:5].boundVariables.fontSize' },
+      { id: 'leading', path: 'textRange[0:5].boundVariables.lineHeight' },
+      { id: 'ink', path: 'textRange[0:5].fills[0].boundVariables.color' },
+      { id: 'size-sm', path: 'textRange[5:12].boundVariables.fontSize' },
+      { id: 'style', path: 'textRange[5:12].boundVariables.fontStyle' },
+      { id: 'weight', path: 'textRange[5:12].boundVariables.fontWeight' },
+      { id: 'tracking', path: 'textRange[5:12].boundVariables.letterSpacing' },
+      { id: 'para', path: 'textRange[5:12].boundVariables.paragraphSpacing' }
+    ]);
+  });
+
+  test('reads per-range text styles when a text node mixes them', () => {
+    const node = {
+      type: 'TEXT',
+      name: 'Body',
+      textStyleId: mixed,
+      fillStyleId: '',
+      getStyledTextSegments: () => [
+        { start: 0, end: 4, textStyleId: 'S:title', fillStyleId: '' },
+        { start: 4, end: 9, textStyleId: 'S:body', fillStyleId: '' }
+      ]
+    } as any;
+
+    expect(getNodeStyleReferences(node)).toEqual([
+      { styleId: 'S:title', path: 'textRange[0:4].textStyleId' },
+      { styleId: 'S:body', path: 'textRange[4:9].textStyleId' }
+    ]);
+  });
+
+  test('counts every bound field of a text style used by a range', async () => {
+    const textStyle = {
+      id: 'S:title',
+      name: 'Title',
+      boundVariables: { fontSize: alias('size-lg'), fontWeight: alias('weight'), lineHeight: alias('leading') }
+    };
+    mockFigma.variables.getLocalVariables.mockReturnValue([]);
+    mockFigma.getStyleById.mockImplementation((id: string) => id === 'S:title' ? textStyle : null);
+    mockFigma.root.children = [{
+      id: 'page1',
+      name: 'Page 1',
+      children: [{
+        id: '2:1', name: 'Body', type: 'TEXT', textStyleId: mixed, fillStyleId: '',
+        getStyledTextSegments: (fields: string[]) => fields.includes('textStyleId')
+          ? [{ start: 0, end: 4, textStyleId: 'S:title', fillStyleId: '' }]
+          : []
+      }]
+    }];
+
+    const index = await buildVariableUsageIndex();
+
+    ['size-lg', 'weight', 'leading'].forEach(id => {
+      expect(getVariableUsages(index, id)).toEqual([expect.objectContaining({
+        nodeId: '2:1', kind: 'style', via: 'S:title'
+      })]);
+    });
+    expect(getVariableUsages(index, 'weight')[0].property)
+      .toBe('textRange[0:4].textStyleId.boundVariables.fontWeight');
+  });
+});
+
+describe('Prototype reactions', () => {
+
+  const button = {
+    id: '3:1',
+    name: 'Toggle',
+    type: 'COMPONENT',
+    reactions: [{
+      trigger: { type: 'ON_CLICK' },
+      actions: [
+        { type: 'SET_VARIABLE', variableId: 'is-open', variableValue: { value: alias('default-open') } },
+        {
+          type: 'CONDITIONAL',
+          conditionalBlocks: [
+            {
+              condition: {
+                value: {
+                  expressionFunction: 'GREATER_THAN',
+                  expressionArguments: [{ value: alias('count') }, { value: 3 }]
+                }
+              },
+              actions: [{ type: 'SET_VARIABLE', variableId: 'limit-reached', variableValue: { value: true } }]
+            },
+            { actions: [{ type: 'SET_VARIABLE_MODE', variableCollectionId: 'col1', variableModeId: 'dark' }] }
+          ]
+        }
+      ]
+    }]
+  } as any;
+
+  test('walks actions, conditional blocks and expression trees', () => {
+    const scan = scanReactions(button);
+
+    expect(scan.aliases).toEqual([
+      { id: 'is-open', path: 'reactions[0].actions[0].variableId' },
+      { id: 'default-open', path: 'reactions[0].actions[0].variableValue' },
+      { id: 'count', path: 'reactions[0].actions[1].conditionalBlocks[0].condition.expressionArguments[0]' },
+      { id: 'limit-reached', path: 'reactions[0].actions[1].conditionalBlocks[0].actions[0].variableId' }
+    ]);
+    expect(scan.modeSwitches).toEqual([{
+      collectionId: 'col1',
+      modeId: 'dark',
+      path: 'reactions[0].actions[1].conditionalBlocks[1].actions[0]'
+    }]);
+  });
+
+  test('records prototype usages with the prototype kind', async () => {
+    mockFigma.variables.getLocalVariables.mockReturnValue([]);
+    mockFigma.root.children = [{ id: 'page1', name: 'Page 1', children: [button] }];
+
+    const index = await buildVariableUsageIndex();
+
+    ['is-open', 'default-open', 'count', 'limit-reached'].forEach(id => {
+      expect(isVariableUsed(index, id)).toBe(true);
+      expect(getVariableUsages(index, id)[0].kind).toBe('prototype');
+    });
+    expect(index.prototypeModes.get('col1')).toEqual(new Set(['dark']));
+  });
+});
+
+describe('Unused styles', () => {
+  const mixed = Symbol('mixed');
+
+  const brand = {
+    id: 'S:brand', name: 'Brand', type: 'PAINT',
+    paints: [{ type: 'SOLID', boundVariables: { color: alias('brand-color') } }]
+  };
+  const legacy = {
+    id: 'S:legacy', name: 'Legacy', type: 'PAINT',
+    paints: [{ type: 'SOLID', boundVariables: { color: alias('legacy-color') } }]
+  };
+  const title = { id: 'S:title', name: 'Title', type: 'TEXT' };
+  const shadow = { id: 'S:shadow', name: 'Shadow', type: 'EFFECT', effects: [] };
+  const grid = { id: 'S:grid', name: '12 columns', type: 'GRID', layoutGrids: [] };
+  const styles = [brand, legacy, title, shadow, grid];
+
+  beforeEach(() => {
+    mockFigma.variables.getLocalVariables.mockReturnValue([
+      { ...unpublished, id: 'brand-color', name: 'brand', variableCollectionId: 'col1', scopes: [], valuesByMode: {} },
+      { ...unpublished, id: 'legacy-color', name: 'legacy', variableCollectionId: 'col1', scopes: [], valuesByMode: {} }
+    ]);
+    mockFigma.variables.getVariableCollectionById.mockReturnValue({ name: 'Colors' });
+    mockFigma.getLocalPaintStyles.mockReturnValue([brand, legacy]);
+    mockFigma.getLocalTextStyles.mockReturnValue([title]);
+    mockFigma.getLocalEffectStyles.mockReturnValue([shadow]);
+    mockFigma.getLocalGridStyles.mockReturnValue([grid]);
+    mockFigma.getStyleById.mockImplementation((id: string) => styles.find(style => style.id === id) || null);
+    mockFigma.root.children = [{
+      id: 'page1',
+      name: 'Page 1',
+      children: [
+        { id: '4:1', name: 'Card', type: 'FRAME', fillStyleId: 'S:brand', effectStyleId: 'S:shadow' },
+        {
+          id: '4:2', name: 'Heading', type: 'TEXT', textStyleId: mixed, fillStyleId: '',
+          getStyledTextSegments: (fields: string[]) => fields.includes('textStyleId')
+            ? [{ start: 0, end: 3, textStyleId: 'S:title', fillStyleId: '' }]
+            : []
+        }
+      ]
+    }];
+  });
+
+  test('reports local styles that no node or text range references', async () => {
+    const result = await analyzeStyles();
+
+    expect(result.target).toBe('styles');
+    expect(result.variables).toEqual([
+      { id: 'S:legacy', name: 'Legacy', collection: 'Paint styles' },
+      { id: 'S:grid', name: '12 columns', collection: 'Grid styles' }
+    ]);
+    expect(result.stats).toEqual({ totalVariables: 5, analyzed: 5, unused: 2 });
+  });
+
+  test('variables bound by a style are only used when the style is used', async () => {
+    const unused = await findUnusedVariables();
+    expect(unused.map(v => v.id)).toEqual(['legacy-color']);
+  });
+});
+
+describe('Scan scope', () => {
+  const bound = (id: string, variableId: string) => ({
+    id, name: id, type: 'RECTANGLE', boundVariables: { opacity: alias(variableId) }
+  });
+  const pageA = { id: 'pageA', name: 'Page A', children: [bound('1:1', 'a')] };
+  const pageB = { id: 'pageB', name: 'Page B', children: [bound('2:1', 'b')] };
+
+  beforeEach(() => {
+    mockFigma.variables.getLocalVariables.mockReturnValue([
+      { ...unpublished, id: 'a', name: 'A', variableCollectionId: 'col1', scopes: [], valuesByMode: {} },
+      { ...unpublished, id: 'b', name: 'B', variableCollectionId: 'col1', scopes: [], valuesByMode: {} }
+    ]);
+    mockFigma.variables.getVariableCollectionById.mockReturnValue({ name: 'Collection' });
+    mockFigma.variables.getVariableById.mockReturnValue(null);
+    mockFigma.root.children = [pageA, pageB];
+    mockFigma.currentPage = { ...pageB, selection: [] };
+  });
+
+  test('whole file scope sees usages on every page', async () => {
+    const result = await analyzeCollections([], { type: 'document' });
+    expect(result.variables).toEqual([]);
+    expect(result.partial).toBe(false);
+  });
+
+  test('selected pages scope only counts usages on those pages', async () => {
+    const result = await analyzeCollections([], { type: 'pages', pageIds: ['pageA'] });
+
+    expect(result.variables.map(v => v.id)).toEqual(['b']);
+    expect(result.partial).toBe(true);
+    expect(result.scopeLabel).toBe('1 page: Page A');
+  });
+
+  test('current page scope walks only the current page', async () => {
+    const result = await analyzeCollections([], { type: 'current-page' });
+
+    expect(result.variables.map(v => v.id)).toEqual(['a']);
+    expect(result.scopeLabel).toBe('Current page: Page B');
+  });
+
+  test('selection scope walks the selected layers and their children once', async () => {
+    const child: any = bound('3:2', 'a');
+    const frame = { id: '3:1', name: 'Frame', type: 'FRAME', children: [child] };
+    child.parent = frame;
+    mockFigma.currentPage = { ...pageB, selection: [frame, child] };
+
+    const index = await buildVariableUsageIndex({ type: 'selection' });
+
+    expect(index.nodesProcessed).toBe(2);
+    expect(getVariableUsages(index, 'a').map(u => u.nodeId)).toEqual(['3:2']);
+    expect(getVariableUsages(index, 'b')).toEqual([]);
+  });
+});
+
+describe('Usages navigator', () => {
+  const fill = { type: 'SOLID', boundVariables: { color: alias('brand') } };
+  const button = { id: '1:1', name: 'Button', type: 'INSTANCE', fills: [fill] };
+  const label = {
+    id: '1:2', name: 'Label', type: 'TEXT',
+    boundVariables: { opacity: alias('brand') }, strokes: [fill]
+  };
+  const card = { id: '2:1', name: 'Card', type: 'FRAME', fills: [fill] };
+  const pageA: any = { id: 'pageA', name: 'Page A', selection: [], children: [button, label] };
+  const pageB: any = { id: 'pageB', name: 'Page B', selection: [], children: [card] };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const brand = { ...unpublished, id: 'brand', name: 'color/brand', variableCollectionId: 'col1', resolvedType: 'COLOR', valuesByMode: {} };
+    mockFigma.variables.getLocalVariables.mockReturnValue([brand]);
+    mockFigma.variables.getVariableById.mockImplementation((id: string) => id === 'brand' ? brand : null);
+    mockFigma.variables.getVariableCollectionById.mockReturnValue({ name: 'Tokens' });
+    mockFigma.root.children = [pageA, pageB];
+    mockFigma.currentPage = pageB;
+    mockFigma.getNodeById.mockImplementation((id: string) => [button, label, card].find(n => n.id === id) || null);
+  });
+
+  test('find-usages groups node usages by page with their bound properties', async () => {
+    await mockFigma.ui.onmessage!({ type: 'find-usages', variableId: 'brand' });
+
+    const reply = mockFigma.ui.postMessage.mock.calls.map(([m]: any[]) => m).find((m: any) => m.type === 'variable-usages');
+    expect(reply.variable).toEqual({
+      id: 'brand', name: 'color/brand', collection: 'Tokens', resolvedType: 'COLOR', usageCount: 3
+    });
+    expect(reply.pages.map((p: any) => [p.pageName, p.usages.map((u: any) => u.nodeName)])).toEqual([
+      ['Page A', ['Button', 'Label']],
+      ['Page B', ['Card']]
+    ]);
+    expect(reply.pages[0].usages[1]).toEqual(expect.objectContaining({
+      nodeType: 'TEXT',
+      properties: ['boundVariables.opacity', 'strokes[0].boundVariables.color']
+    }));
+  });
+
+  test('select-nodes switches page, selects the usages and zooms to them', async () => {
+    await mockFigma.ui.onmessage!({ type: 'select-nodes', pageId: 'pageA', nodeIds: ['1:1', '1:2'] });
+
+    expect(mockFigma.currentPage).toBe(pageA);
+    expect(pageA.selection).toEqual([button, label]);
+    expect(mockFigma.viewport.scrollAndZoomIntoView).toHaveBeenCalledWith([button, label]);
+  });
+
+  test('select-nodes reports usages that no longer exist', async () => {
+    await mockFigma.ui.onmessage!({ type: 'select-nodes', pageId: 'pageB', nodeIds: ['9:9'] });
+
+    expect(mockFigma.viewport.scrollAndZoomIntoView).not.toHaveBeenCalled();
+    expect(mockFigma.notify).toHaveBeenCalledWith('The selected layers no longer exist', { error: true });
+  });
+});
+
+describe('Variables in selection', () => {
+  // Registered when code.ts is evaluated, before any mock is cleared
+  const onSelectionChange = mockFigma.on.mock.calls.find(([type]) => type === 'selectionchange')![1];
+  const variables: any[] = [
+    {
+      ...unpublished,
+      id: 'brand', name: 'color/brand', variableCollectionId: 'col1', resolvedType: 'COLOR',
+      valuesByMode: { light: { r: 1, g: 0, b: 0, a: 1 }, dark: { r: 0, g: 0, b: 0, a: 0.5 } }
+    },
+    {
+      ...unpublished,
+      id: 'semantic', name: 'color/primary', variableCollectionId: 'col1', resolvedType: 'COLOR',
+      valuesByMode: { light: alias('brand'), dark: alias('brand') }
+    },
+    { ...unpublished, id: 'size', name: 'type/size', variableCollectionId: 'col2', resolvedType: 'FLOAT', valuesByMode: { base: 16 } },
+    { ...unpublished, id: 'blur', name: 'effect/blur', variableCollectionId: 'col2', resolvedType: 'FLOAT', valuesByMode: { base: 4 } }
+  ];
+  const collections: any = {
+    col1: { name: 'Colors', modes: [{ modeId: 'light', name: 'Light' }, { modeId: 'dark', name: 'Dark' }] },
+    col2: { name: 'Tokens', modes: [{ modeId: 'base', name: 'Base' }] }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFigma.variables.getLocalVariables.mockReturnValue(variables);
+    mockFigma.variables.getVariableById.mockImplementation((id: string) => variables.find(v => v.id === id) || null);
+    mockFigma.variables.getVariableCollectionById.mockImplementation((id: string) => collections[id] || null);
+    mockFigma.getStyleById.mockReturnValue(null);
+  });
+
+  test('lists alias targets, text ranges, effects and instance overrides of the selected subtree', async () => {
+    const title = {
+      id: 'I1;2', name: 'Title', type: 'TEXT',
+      getStyledTextSegments: () => [{ start: 0, end: 5, boundVariables: { fontSize: alias('size') }, fills: [] }]
+    };
+    const icon = {
+      id: 'I1;3', name: 'Icon', type: 'VECTOR',
+      fills: [{ type: 'SOLID', boundVariables: { color: alias('semantic') } }],
+      effects: [{ type: 'DROP_SHADOW', boundVariables: { radius: alias('blur') } }]
+    };
+    const card = {
+      id: '1:1', name: 'Card', type: 'INSTANCE', componentProperties: {},
+      overrides: [{ id: 'I1;3', overriddenFields: ['fills'] }],
+      children: [title, icon]
+    };
+    mockFigma.currentPage = { id: 'page1', name: 'Page 1', selection: [card], children: [] };
+
+    const result = await getSelectionVariables();
+
+    expect(result.map(v => v.name)).toEqual(['color/brand', 'color/primary', 'effect/blur', 'type/size']);
+    const [brand, primary, blur, size] = result;
+    expect(brand).toEqual(expect.objectContaining({
+      collection: 'Colors',
+      resolvedType: 'COLOR',
+      values: [
+        { modeId: 'light', modeName: 'Light', value: '#FF0000' },
+        { modeId: 'dark', modeName: 'Dark', value: '#00000080' }
+      ],
+      kinds: ['alias'],
+      aliasedBy: ['color/primary']
+    }));
+    expect(primary.values[0].value).toBe('→ color/brand');
+    expect(primary.overrides).toEqual(['Icon: fills[0].boundVariables.color']);
+    expect(blur.properties).toEqual(['effects[0].boundVariables.radius']);
+    expect(blur.overrides).toEqual([]);
+    expect(size.properties).toEqual(['textRange[0:5].boundVariables.fontSize']);
+    expect(size.nodeIds).toEqual(['I1;2']);
+  });
+
+  test('an empty selection lists nothing', async () => {
+    mockFigma.currentPage = { id: 'page1', name: 'Page 1', selection: [], children: [] };
+    expect(await getSelectionVariables()).toEqual([]);
+  });
+
+  test('scans once per pause in selection changes, without analysis progress', async () => {
+    const frame = { id: '1:1', name: 'Frame', type: 'FRAME', boundVariables: { opacity: alias('size') } };
+    mockFigma.currentPage = { id: 'page1', name: 'Page 1', selection: [frame], children: [frame] };
+    const posted = (type: string) => mockFigma.ui.postMessage.mock.calls.map(([m]) => m).filter(m => m.type === type);
+
+    onSelectionChange();
+    onSelectionChange();
+    onSelectionChange();
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    expect(posted('selection-variables')).toHaveLength(1);
+    expect(posted('selection-variables')[0].variables.map((v: any) => v.name)).toEqual(['type/size']);
+    expect(posted('progress')).toEqual([]);
+  });
+
+  test('drops the result of a scan overtaken by a newer selection', async () => {
+    const frame = { id: '1:1', name: 'Frame', type: 'FRAME', boundVariables: { opacity: alias('size') } };
+    mockFigma.currentPage = { id: 'page1', name: 'Page 1', selection: [frame], children: [frame] };
+
+    const stale = postSelectionVariables();
+    mockFigma.currentPage = { id: 'page1', name: 'Page 1', selection: [], children: [frame] };
+    await Promise.all([stale, postSelectionVariables()]);
+
+    const replies = mockFigma.ui.postMessage.mock.calls.map(([m]) => m).filter(m => m.type === 'selection-variables');
+    expect(replies).toEqual([{ type: 'selection-variables', selectionCount: 0, variables: [] }]);
+  });
+});
+
+describe('Deletion backups', () => {
+  let variables: any[];
+  const collection = makeCollection('col1', {
+    name: 'Colors', defaultModeId: 'light', modes: [{ modeId: 'light', name: 'Light' }, { modeId: 'dark', name: 'Dark' }]
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFigma.root.pluginData = {};
+    variables = [
+      makeVariable('old-brand', {
+        name: 'color/brand', resolvedType: 'COLOR', description: 'Brand red', scopes: ['ALL_FILLS'],
+        codeSyntax: { WEB: '--brand' }, hiddenFromPublishing: true,
+        valuesByMode: { light: { r: 1, g: 0, b: 0, a: 1 }, dark: { r: 0.5, g: 0, b: 0, a: 1 } }
+      }),
+      makeVariable('old-legacy', { name: 'color/legacy', resolvedType: 'COLOR', valuesByMode: { light: alias('old-brand'), dark: alias('old-brand') } }),
+      makeVariable('primary', { name: 'color/primary', resolvedType: 'COLOR', valuesByMode: { light: alias('old-brand'), dark: { r: 0, g: 0, b: 1, a: 1 } } })
+    ];
+    mockFigma.variables.getLocalVariables.mockImplementation(() => variables);
+    mockFigma.variables.getVariableById.mockImplementation((id: string) => variables.find(v => v.id === id) || null);
+    mockFigma.variables.getVariableCollectionById.mockImplementation((id: string) => id === 'col1' ? collection : null);
+    mockFigma.variables.createVariableAlias.mockImplementation((variable: any) => alias(variable.id));
+    mockFigma.variables.createVariable.mockImplementation((name: string, _collection: any, resolvedType: string) => {
+      const created = makeVariable(`new-${name}`, { name, resolvedType });
+      variables.push(created);
+      return created;
+    });
+  });
+
+  test('backs up every restorable field and the aliases pointing at a variable', () => {
+    const backup = createDeletionBackup(['old-brand', 'missing']);
+    saveDeletionBackup(backup);
+
+    expect(backup.variables).toHaveLength(1);
+    expect(backup.variables[0]).toEqual(expect.objectContaining({
+      name: 'color/brand',
+      collectionId: 'col1',
+      collectionName: 'Colors',
+      resolvedType: 'COLOR',
+      scopes: ['ALL_FILLS'],
+      codeSyntax: { WEB: '--brand' },
+      description: 'Brand red',
+      hiddenFromPublishing: true,
+      modeNames: { light: 'Light', dark: 'Dark' },
+      referrers: [
+        { variableId: 'old-legacy', modeId: 'light' },
+        { variableId: 'old-legacy', modeId: 'dark' },
+        { variableId: 'primary', modeId: 'light' }
+      ]
+    }));
+    expect(getDeletionBackups()).toEqual([backup]);
+  });
+
+  test('restores variables, their aliases to each other and the aliases of survivors', () => {
+    const backup = createDeletionBackup(['old-legacy', 'old-brand']);
+    saveDeletionBackup(backup);
+    variables = variables.filter(v => v.id === 'primary');
+
+    const result = restoreVariables(backup.id, ['old-brand', 'old-legacy']);
+
+    expect(result).toEqual({ restored: ['color/legacy', 'color/brand'], errors: [] });
+    const brand = variables.find(v => v.id === 'new-color/brand');
+    const legacy = variables.find(v => v.id === 'new-color/legacy');
+    const primary = variables.find(v => v.id === 'primary');
+    expect(brand.valuesByMode.light).toEqual({ r: 1, g: 0, b: 0, a: 1 });
+    expect(brand.description).toBe('Brand red');
+    expect(brand.hiddenFromPublishing).toBe(true);
+    expect(brand.setVariableCodeSyntax).toHaveBeenCalledWith('WEB', '--brand');
+    expect(legacy.valuesByMode).toEqual({ light: alias('new-color/brand'), dark: alias('new-color/brand') });
+    expect(primary.valuesByMode.light).toEqual(alias('new-color/brand'));
+    expect(getDeletionBackups()).toEqual([]);
+  });
+
+  test('keeps variables that could not be restored in the backup', () => {
+    const backup = createDeletionBackup(['old-brand', 'old-legacy']);
+    backup.variables[1].collectionId = 'gone';
+    backup.variables[1].collectionName = 'Old colors';
+    saveDeletionBackup(backup);
+
+    const result = restoreVariables(backup.id, ['old-brand', 'old-legacy']);
+
+    expect(result.errors).toEqual([{ name: 'color/legacy', error: 'Collection "Old colors" no longer exists' }]);
+    expect(getDeletionBackups()[0].variables.map(v => v.name)).toEqual(['color/legacy']);
+  });
+});
+
+describe('Deletion outcomes', () => {
+  let live: Map<string, any>;
+  const variable = (id: string, remove: () => void) => makeVariable(id, { valuesByMode: { m: 1 }, remove });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFigma.root.pluginData = {};
+    mockFigma.root.children = [{ id: 'page1', name: 'Page 1', children: [] }];
+    live = new Map();
+    live.set('a', variable('a', () => live.delete('a')));
+    live.set('locked', variable('locked', () => { throw new Error('Variable is read-only'); }));
+    live.set('b', variable('b', () => live.delete('b')));
+    mockFigma.variables.getLocalVariables.mockImplementation(() => Array.from(live.values()));
+    mockFigma.variables.getVariableById.mockImplementation((id: string) => live.get(id) || null);
+    mockFigma.variables.getVariableCollectionById.mockReturnValue({ name: 'Numbers', modes: [{ modeId: 'm', name: 'Mode' }] });
+  });
+
+  const deleteVariables = async (ids: string[]) => {
+    await mockFigma.ui.onmessage!({ type: 'delete-variables', variables: ids.map(id => ({ id, name: id })) });
+    return mockFigma.ui.postMessage.mock.calls.map(([m]: any[]) => m).find((m: any) => m.type === 'delete-result');
+  };
+
+  test('keeps going past failures and reports each variable', async () => {
+    const result = await deleteVariables(['a', 'locked', 'gone', 'b']);
+
+    expect(result.stats).toEqual({ total: 4, success: 2, errors: 1 });
+    expect(result.outcomes).toEqual([
+      { id: 'a', name: 'a', status: 'deleted' },
+      { id: 'locked', name: 'locked', status: 'failed', error: 'Variable is read-only' },
+      { id: 'gone', name: 'gone', status: 'not-found' },
+      { id: 'b', name: 'b', status: 'deleted' }
+    ]);
+    expect(live.has('locked')).toBe(true);
+  });
+
+  test('makes the deletion a single undo step and only backs up deleted variables', async () => {
+    await deleteVariables(['a', 'locked']);
+
+    expect(mockFigma.commitUndo).toHaveBeenCalledTimes(2);
+    expect(getDeletionBackups()[0].variables.map(v => v.id)).toEqual(['a']);
+  });
+
+  test('deletes nothing when the backup cannot be stored', async () => {
+    mockFigma.root.setPluginData.mockImplementationOnce(() => { throw new Error('Plugin data is too large'); });
+
+    const result = await deleteVariables(['a', 'b']);
+
+    expect(result).toEqual({ type: 'delete-result', success: false, error: 'Plugin data is too large' });
+    expect(live.has('a')).toBe(true);
+    expect(live.has('b')).toBe(true);
+  });
+
+  test('keeps only the most recent deletion backups', () => {
+    for (let i = 0; i < 25; i++) {
+      saveDeletionBackup({ id: `deleted-variables:${i}`, deletedAt: i, variables: [{ id: `v${i}` } as any] });
+    }
+
+    const backups = getDeletionBackups();
+    expect(backups).toHaveLength(20);
+    expect(backups[backups.length - 1].deletedAt).toBe(5);
+  });
+});
+
+describe('Deletion impact', () => {
+  const variables: any[] = [
+    { ...unpublished, id: 'used', name: 'space/used', variableCollectionId: 'col1', valuesByMode: { m1: 4 } },
+    { ...unpublished, id: 'target', name: 'space/target', variableCollectionId: 'col1', valuesByMode: { m1: 8 } },
+    { ...unpublished, id: 'keeper', name: 'space/keeper', variableCollectionId: 'col1', valuesByMode: { m1: alias('target') } },
+    { ...unpublished, id: 'styled', name: 'color/styled', variableCollectionId: 'col1', valuesByMode: { m1: 1 } },
+    { ...unpublished, id: 'lonely', name: 'misc/lonely', variableCollectionId: 'col2', valuesByMode: { m2: 1 } },
+    { ...unpublished, id: 'partial', name: 'brand/partial', variableCollectionId: 'col3', valuesByMode: { a: 1, b: 2 } },
+    { ...unpublished, id: 'accent', name: 'brand/accent', variableCollectionId: 'col3', valuesByMode: { a: 3, b: 4 } }
+  ];
+  const collections: any[] = [
+    { id: 'col1', name: 'Spacing', modes: [{ modeId: 'm1', name: 'Default' }], variableIds: ['used', 'target', 'keeper', 'styled'] },
+    { id: 'col2', name: 'Misc', modes: [{ modeId: 'm2', name: 'Default' }], variableIds: ['lonely'] },
+    { id: 'col3', name: 'Brand', modes: [{ modeId: 'a', name: 'Light' }, { modeId: 'b', name: 'Dark' }], variableIds: ['partial', 'accent'] }
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFigma.variables.getLocalVariables.mockReturnValue(variables);
+    mockFigma.variables.getVariableById.mockImplementation((id: string) => variables.find(v => v.id === id) || null);
+    mockFigma.variables.getVariableCollectionById.mockImplementation((id: string) => collections.find(c => c.id === id) || null);
+    mockFigma.variables.getLocalVariableCollections.mockReturnValue(collections);
+    mockFigma.getLocalPaintStyles.mockReturnValue([
+      { id: 'S:1', name: 'Brand fill', type: 'PAINT', paints: [{ type: 'SOLID', boundVariables: { color: alias('styled') } }] }
+    ]);
+    mockFigma.root.children = [{
+      id: 'page1', name: 'Page 1',
+      children: [{ id: '1:1', name: 'Box', type: 'FRAME', boundVariables: { itemSpacing: alias('used') } }]
+    }];
+  });
+
+  afterEach(() => {
+    mockFigma.getLocalPaintStyles.mockReturnValue([]);
+  });
+
+  test('blocks variables that are bound, aliased by survivors or bound in styles', async () => {
+    const impact = await analyzeDeletionImpact(['used', 'target', 'styled', 'lonely', 'partial']);
+
+    expect(impact.referenced).toEqual([
+      { id: 'used', name: 'space/used', reasons: ['bound to 1 layer'] },
+      { id: 'target', name: 'space/target', reasons: ['aliased by space/keeper'] },
+      { id: 'styled', name: 'color/styled', reasons: ['bound in Brand fill'] }
+    ]);
+    expect(impact.brokenAliases).toEqual([
+      { variableName: 'space/keeper', modeName: 'Default', targetName: 'space/target' }
+    ]);
+    expect(impact.danglingStyleBindings).toEqual([
+      { styleName: 'Brand fill', property: 'paints[0].boundVariables.color', variableId: 'styled', variableName: 'color/styled' }
+    ]);
+  });
+
+  test('reports collections left without variables', async () => {
+    const impact = await analyzeDeletionImpact(['lonely', 'partial']);
+
+    expect(impact.referenced).toEqual([]);
+    expect(impact.emptyCollections).toEqual(['Misc']);
+  });
+
+  test('aliases between variables deleted together do not block', async () => {
+    const impact = await analyzeDeletionImpact(['target', 'keeper']);
+
+    expect(impact.referenced).toEqual([]);
+    expect(impact.brokenAliases).toEqual([]);
+  });
+});
+
+describe('Merging variables', () => {
+  // Setters return a copy of the item with the field bound, as Figma does
+  const bindItem = (item: any, field: string, variable: any) => ({
+    ...item, boundVariables: { ...item.boundVariables, [field]: alias(variable.id) }
+  });
+  let variables: any[];
+  let nodes: any[];
+
+  const dropVariable = (id: string) => { variables = variables.filter(v => v.id !== id); };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFigma.root.pluginData = {};
+    variables = [
+      makeVariable('old', { resolvedType: 'COLOR', valuesByMode: { m: { r: 1, g: 0, b: 0, a: 1 } } }, dropVariable),
+      makeVariable('new', { resolvedType: 'COLOR', valuesByMode: { m: { r: 0.9, g: 0, b: 0, a: 1 } } }, dropVariable),
+      makeVariable('hover', { resolvedType: 'COLOR', valuesByMode: { m: alias('old') } }, dropVariable),
+      makeVariable('size', { resolvedType: 'FLOAT', valuesByMode: { m: 4 } }, dropVariable),
+      makeVariable('gap', { resolvedType: 'FLOAT', valuesByMode: { m: 8 } }, dropVariable)
+    ];
+    mockFigma.variables.getLocalVariables.mockImplementation(() => variables);
+    mockFigma.variables.getVariableById.mockImplementation((id: string) => variables.find(v => v.id === id) || null);
+    mockFigma.variables.getVariableCollectionById.mockReturnValue({ name: 'Tokens', modes: [{ modeId: 'm', name: 'Mode' }] });
+    mockFigma.variables.createVariableAlias.mockImplementation((variable: any) => alias(variable.id));
+    mockFigma.variables.setBoundVariableForPaint.mockImplementation(bindItem);
+    mockFigma.variables.setBoundVariableForEffect.mockImplementation(bindItem);
+    mockFigma.getNodeById.mockImplementation((id: string) => nodes.find(n => n.id === id) || null);
+  });
+
+  afterEach(() => {
+    mockFigma.getLocalPaintStyles.mockReturnValue([]);
+  });
+
+  test('moves paints, gradient stops, text ranges, styles and aliases, then deletes the source', async () => {
+    const frame: any = {
+      id: '1:1', name: 'Card', type: 'FRAME',
+      fills: [{ type: 'SOLID', boundVariables: { color: alias('old') } }],
+      strokes: [{ type: 'GRADIENT_LINEAR', gradientStops: [{ position: 0, boundVariables: { color: alias('old') } }] }]
+    };
+    const segment = { start: 0, end: 4, boundVariables: {}, fills: [{ type: 'SOLID', boundVariables: { color: alias('old') } }] };
+    const text: any = {
+      id: '2:1', name: 'Title', type: 'TEXT', characters: 'Sale', fontName: mockFigma.mixed,
+      getStyledTextSegments: () => [segment],
+      getRangeAllFontNames: () => [{ family: 'Inter', style: 'Bold' }],
+      setRangeFills: jest.fn()
+    };
+    nodes = [frame, text];
+    const style: any = { id: 'S:1', name: 'Brand', type: 'PAINT', paints: [{ type: 'SOLID', boundVariables: { color: alias('old') } }] };
+    mockFigma.getLocalPaintStyles.mockReturnValue([style]);
+    mockFigma.root.children = [
+      { id: 'pageA', name: 'Page A', children: [frame] },
+      { id: 'pageB', name: 'Page B', children: [text] }
+    ];
+
+    const result = await mergeVariables('old', 'new', true);
+
+    expect(result).toEqual({
+      sourceName: 'old',
+      targetId: 'new',
+      targetName: 'new',
+      pages: [{ pageId: 'pageA', pageName: 'Page A', moved: 2 }, { pageId: 'pageB', pageName: 'Page B', moved: 1 }],
+      styles: 1,
+      aliases: 1,
+      skipped: 0,
+      errors: [],
+      deleted: true
+    });
+    expect(frame.fills[0].boundVariables.color).toEqual(alias('new'));
+    expect(frame.strokes[0].gradientStops[0].boundVariables.color).toEqual(alias('new'));
+    expect(text.setRangeFills).toHaveBeenCalledWith(0, 4, [{ type: 'SOLID', boundVariables: { color: alias('new') } }]);
+    expect(mockFigma.loadFontAsync).toHaveBeenCalledWith({ family: 'Inter', style: 'Bold' });
+    expect(style.paints[0].boundVariables.color).toEqual(alias('new'));
+    expect(variables.find(v => v.id === 'hover').valuesByMode.m).toEqual(alias('new'));
+    expect(variables.some(v => v.id === 'old')).toBe(false);
+    expect(getDeletionBackups()[0].variables.map(v => v.name)).toEqual(['old']);
+  });
+
+  test('moves node fields, effects and component properties but keeps a source read by prototypes', async () => {
+    const instance: any = {
+      id: '3:1', name: 'Button', type: 'INSTANCE',
+      boundVariables: { itemSpacing: alias('size') },
+      effects: [{ type: 'DROP_SHADOW', boundVariables: { radius: alias('size') } }],
+      componentProperties: { Gap: { type: 'TEXT', value: '4', boundVariables: { value: alias('size') } } },
+      reactions: [{ actions: [{ type: 'SET_VARIABLE', variableId: 'size', variableValue: { type: 'FLOAT', value: 1 } }] }],
+      setBoundVariable: jest.fn(),
+      setProperties: jest.fn()
+    };
+    nodes = [instance];
+    mockFigma.root.children = [{ id: 'pageA', name: 'Page A', children: [instance] }];
+
+    const result = await mergeVariables('size', 'gap', true);
+
+    expect(result.pages).toEqual([{ pageId: 'pageA', pageName: 'Page A', moved: 3 }]);
+    expect(instance.setBoundVariable).toHaveBeenCalledWith('itemSpacing', variables.find(v => v.id === 'gap'));
+    expect(instance.effects[0].boundVariables.radius).toEqual(alias('gap'));
+    expect(instance.setProperties).toHaveBeenCalledWith({ Gap: alias('gap') });
+    expect(result.skipped).toBe(1);
+    expect(result.deleted).toBe(false);
+  });
+
+  test('only merges variables of the same type', async () => {
+    nodes = [];
+    await expect(mergeVariables('old', 'gap', false))
+      .rejects.toThrow('Cannot merge a COLOR variable into a FLOAT variable');
+  });
+
+  test('rejects a target that aliases the source through another variable', async () => {
+    nodes = [];
+    variables.push(makeVariable('pressed', { resolvedType: 'COLOR', valuesByMode: { m: alias('hover') } }, dropVariable));
+    await expect(mergeVariables('old', 'pressed', true)).rejects.toThrow('pressed aliases old');
+  });
+
+  test('never deletes a protected source, and changes nothing trying', async () => {
+    nodes = [];
+    mockFigma.root.children = [];
+    const old = variables.find(v => v.id === 'old');
+    old.description = 'Legacy brand @keep';
+
+    await expect(detachVariable('old')).rejects.toThrow('old is protected (tagged @keep)');
+    await expect(mergeVariables('old', 'new', true, true)).rejects.toThrow('old is protected');
+    expect(variables.find(v => v.id === 'hover').valuesByMode.m).toEqual(alias('old'));
+    expect(old.remove).not.toHaveBeenCalled();
+
+    expect((await mergeVariables('old', 'new', false)).deleted).toBe(false);
+  });
+
+  test('deletes a published source only once confirmed', async () => {
+    nodes = [];
+    mockFigma.root.children = [];
+    const old = variables.find(v => v.id === 'old');
+    old.getPublishStatusAsync = async () => 'CURRENT';
+
+    await expect(mergeVariables('old', 'new', true)).rejects.toThrow('old is published to the library');
+    expect(variables.find(v => v.id === 'hover').valuesByMode.m).toEqual(alias('old'));
+    expect(old.remove).not.toHaveBeenCalled();
+
+    const result = await mergeVariables('old', 'new', true, true);
+    expect(result.deleted).toBe(true);
+  });
+
+  test('keeps the source when a layer could not be rebound', async () => {
+    const locked: any = {
+      id: '1:9', name: 'Locked', type: 'FRAME',
+      boundVariables: { itemSpacing: alias('size') },
+      setBoundVariable: jest.fn(() => { throw new Error('Node is read-only'); })
+    };
+    nodes = [locked];
+    mockFigma.root.children = [{ id: 'pageA', name: 'Page A', children: [locked] }];
+
+    const result = await mergeVariables('size', 'gap', true);
+
+    expect(result.errors).toEqual([{ name: 'Locked', error: 'Node is read-only' }]);
+    expect(result.deleted).toBe(false);
+    expect(variables.some(v => v.id === 'size')).toBe(true);
+  });
+});
+
+describe('Detaching variables', () => {
+  const red = { r: 1, g: 0, b: 0, a: 1 };
+  const darkRed = { r: 0.5, g: 0, b: 0, a: 0.8 };
+  let variables: any[];
+  const collections: any = {
+    palette: makeCollection('palette', { name: 'Palette', defaultModeId: 'light', modes: [{ modeId: 'light', name: 'Light' }, { modeId: 'dark', name: 'Dark' }] }),
+    theme: makeCollection('theme', { name: 'Theme', defaultModeId: 'base', modes: [{ modeId: 'base', name: 'Base' }] }),
+    sizes: makeCollection('sizes', { name: 'Sizes', defaultModeId: 'md', modes: [{ modeId: 'md', name: 'Medium' }, { modeId: 'lg', name: 'Large' }] })
+  };
+
+  const dropVariable = (id: string) => { variables = variables.filter(v => v.id !== id); };
+  const unbindItem = (item: any, field: string) => {
+    const { [field]: _removed, ...boundVariables } = item.boundVariables || {};
+    return { ...item, boundVariables };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFigma.root.pluginData = {};
+    variables = [
+      makeVariable('red', { variableCollectionId: 'palette', resolvedType: 'COLOR', valuesByMode: { light: red, dark: darkRed } }, dropVariable),
+      makeVariable('accent', { variableCollectionId: 'theme', resolvedType: 'COLOR', valuesByMode: { base: alias('red') } }, dropVariable),
+      makeVariable('link', { variableCollectionId: 'theme', resolvedType: 'COLOR', valuesByMode: { base: alias('accent') } }, dropVariable),
+      makeVariable('radius', { variableCollectionId: 'sizes', resolvedType: 'FLOAT', valuesByMode: { md: 4, lg: 8 } }, dropVariable)
+    ];
+    mockFigma.variables.getLocalVariables.mockImplementation(() => variables);
+    mockFigma.variables.getVariableById.mockImplementation((id: string) => variables.find(v => v.id === id) || null);
+    mockFigma.variables.getVariableCollectionById.mockImplementation((id: string) => collections[id] || null);
+    mockFigma.variables.setBoundVariableForPaint.mockImplementation(unbindItem);
+  });
+
+  afterEach(() => {
+    mockFigma.getLocalPaintStyles.mockReturnValue([]);
+  });
+
+  test('resolves through alias chains with the modes set on ancestors', () => {
+    const page: any = { id: 'page', explicitVariableModes: {}, parent: null };
+    const section = { id: 'section', explicitVariableModes: { palette: 'dark' }, parent: page };
+    const frame: any = { id: 'frame', explicitVariableModes: {}, parent: section };
+    const accent = variables.find(v => v.id === 'accent');
+
+    expect(resolveVariableValue(accent, frame)).toEqual(darkRed);
+    expect(resolveVariableValue(accent, page)).toEqual(red);
+    expect(resolveVariableValue(accent, null)).toEqual(red);
+  });
+
+  test('writes the literal for each layer, style and alias, then deletes the variable', async () => {
+    const darkSection = { id: '0:1', explicitVariableModes: { palette: 'dark' }, parent: null };
+    const card: any = {
+      id: '1:1', name: 'Card', type: 'FRAME', parent: darkSection,
+      fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 }, boundVariables: { color: alias('accent') } }]
+    };
+    const large = { id: '0:2', explicitVariableModes: { sizes: 'lg' }, parent: null };
+    const chip: any = {
+      id: '1:2', name: 'Chip', type: 'FRAME', parent: large,
+      boundVariables: { topLeftRadius: alias('radius') },
+      setBoundVariable: jest.fn()
+    };
+    const style: any = { id: 'S:1', name: 'Accent', type: 'PAINT', paints: [{ type: 'SOLID', boundVariables: { color: alias('accent') } }] };
+    mockFigma.getLocalPaintStyles.mockReturnValue([style]);
+    mockFigma.getNodeById.mockImplementation((id: string) => [card, chip].find(n => n.id === id) || null);
+    mockFigma.root.children = [{ id: 'page1', name: 'Page 1', children: [card, chip] }];
+
+    const result = await detachVariable('accent');
+
+    expect(result).toEqual(expect.objectContaining({
+      sourceName: 'accent',
+      pages: [{ pageId: 'page1', pageName: 'Page 1', moved: 1 }],
+      styles: 1,
+      aliases: 1,
+      deleted: true
+    }));
+    expect(card.fills[0]).toEqual({ type: 'SOLID', color: { r: 0.5, g: 0, b: 0 }, opacity: 0.8, boundVariables: {} });
+    expect(style.paints[0]).toEqual({ type: 'SOLID', color: { r: 1, g: 0, b: 0 }, opacity: 1, boundVariables: {} });
+    expect(variables.find(v => v.id === 'link').valuesByMode.base).toEqual(red);
+    expect(variables.some(v => v.id === 'accent')).toBe(false);
+
+    await detachVariable('radius');
+    expect(chip.setBoundVariable).toHaveBeenCalledWith('topLeftRadius', null);
+    expect(chip.topLeftRadius).toBe(8);
+  });
+
+  test('aliases keep the value of their own mode', async () => {
+    const blue = { r: 0, g: 0, b: 1, a: 1 };
+    variables.push(
+      makeVariable('base', { variableCollectionId: 'palette', resolvedType: 'COLOR', valuesByMode: { light: red, dark: blue } }, dropVariable),
+      makeVariable('semantic', { variableCollectionId: 'palette', resolvedType: 'COLOR', valuesByMode: { light: alias('base'), dark: alias('base') } }, dropVariable),
+      makeVariable('themed', { variableCollectionId: 'theme', resolvedType: 'COLOR', valuesByMode: { base: alias('base') } }, dropVariable)
+    );
+    mockFigma.root.children = [{ id: 'page1', name: 'Page 1', children: [] }];
+
+    await detachVariable('base');
+
+    expect(variables.find(v => v.id === 'semantic').valuesByMode).toEqual({ light: red, dark: blue });
+    expect(variables.find(v => v.id === 'themed').valuesByMode).toEqual({ base: red });
+  });
+
+  test('loads the fonts of a text layer before writing its characters', async () => {
+    variables.push(makeVariable('label', { variableCollectionId: 'theme', resolvedType: 'STRING', valuesByMode: { base: 'Buy now' } }, dropVariable));
+    const font = { family: 'Inter', style: 'Bold' };
+    const button: any = {
+      id: '1:3', name: 'Button', type: 'TEXT', fontName: font, parent: null,
+      boundVariables: { characters: alias('label') },
+      setBoundVariable: jest.fn(() => {
+        if (!mockFigma.loadFontAsync.mock.calls.length) throw new Error('Font not loaded');
+      })
+    };
+    mockFigma.getNodeById.mockImplementation(() => button);
+    mockFigma.root.children = [{ id: 'page1', name: 'Page 1', children: [button] }];
+
+    await detachVariable('label');
+
+    expect(mockFigma.loadFontAsync).toHaveBeenCalledWith(font);
+    expect(button.characters).toBe('Buy now');
+  });
+
+  test('analysis offers variables bound to a few layers for detaching', async () => {
+    const nodes = [1, 2].map(i => ({ id: `1:${i}`, name: `Box ${i}`, type: 'FRAME', boundVariables: { opacity: alias('radius') } }));
+    mockFigma.root.children = [{ id: 'page1', name: 'Page 1', children: nodes }];
+
+    const result = await analyzeCollections(['sizes']);
+
+    expect(result.lowUsage).toEqual([{ id: 'radius', name: 'radius', collection: 'Sizes', usageCount: 2 }]);
+  });
+});
+
+describe('Duplicate variables', () => {
+  const collections = [
+    { id: 'primitives', name: 'Primitives', defaultModeId: 'p', modes: [{ modeId: 'p', name: 'Value' }], variableIds: ['red', 'red2', 'almostRed', 'four', 'fourish'] },
+    { id: 'theme', name: 'Theme', defaultModeId: 'light', modes: [{ modeId: 'light', name: 'Light' }, { modeId: 'dark', name: 'Dark' }], variableIds: ['danger', 'error', 'accent'] }
+  ];
+  const variables: any[] = [
+    { ...unpublished, id: 'red', name: 'red', variableCollectionId: 'primitives', resolvedType: 'COLOR', scopes: [], valuesByMode: { p: { r: 1, g: 0, b: 0, a: 1 } } },
+    { ...unpublished, id: 'red2', name: 'red2', variableCollectionId: 'primitives', resolvedType: 'COLOR', scopes: [], valuesByMode: { p: { r: 1, g: 0, b: 0, a: 1 } } },
+    { ...unpublished, id: 'almostRed', name: 'almostRed', variableCollectionId: 'primitives', resolvedType: 'COLOR', scopes: [], valuesByMode: { p: { r: 0.99, g: 0, b: 0, a: 1 } } },
+    { ...unpublished, id: 'four', name: 'four', variableCollectionId: 'primitives', resolvedType: 'FLOAT', scopes: [], valuesByMode: { p: 4 } },
+    { ...unpublished, id: 'fourish', name: 'fourish', variableCollectionId: 'primitives', resolvedType: 'FLOAT', scopes: [], valuesByMode: { p: 4.2 } },
+    { ...unpublished, id: 'danger', name: 'danger', variableCollectionId: 'theme', resolvedType: 'COLOR', scopes: [], valuesByMode: { light: alias('red'), dark: { r: 0, g: 0, b: 0, a: 1 } } },
+    { ...unpublished, id: 'error', name: 'error', variableCollectionId: 'theme', resolvedType: 'COLOR', scopes: [], valuesByMode: { light: alias('red2'), dark: alias('accent') } },
+    { ...unpublished, id: 'accent', name: 'accent', variableCollectionId: 'theme', resolvedType: 'COLOR', scopes: [], valuesByMode: { light: { r: 0, g: 0, b: 1, a: 1 }, dark: { r: 0, g: 0, b: 0, a: 1 } } }
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const frame = { id: '1:1', name: 'Button', type: 'FRAME', boundVariables: { fills: [alias('red2')] } };
+    mockFigma.root.children = [{ id: 'page', name: 'Page', children: [frame] }];
+    mockFigma.variables.getLocalVariableCollections.mockReturnValue(collections);
+    mockFigma.variables.getLocalVariables.mockReturnValue(variables);
+    mockFigma.variables.getVariableCollectionById.mockImplementation((id: string) => collections.find(c => c.id === id) || null);
+    mockFigma.variables.getVariableById.mockImplementation((id: string) => variables.find(v => v.id === id) || null);
+  });
+
+  test('groups exact matches in every mode, following aliases into and within collections', async () => {
+    const groups = await findDuplicateVariables({ colorDistance: 0, floatTolerance: 0 });
+
+    expect(groups.map(group => group.variables.map(v => v.id))).toEqual([['red2', 'red'], ['danger', 'error']]);
+    expect(groups[0]).toMatchObject({ category: 'colors', resolvedType: 'COLOR', values: ['#FF0000'], totalUsage: 1 });
+    expect(groups[1].values).toEqual(['#FF0000', '#000000']);
+  });
+
+  test('applies colour distance and number tolerance', async () => {
+    const groups = await findDuplicateVariables({ colorDistance: 3, floatTolerance: 0.25 });
+
+    expect(groups.map(group => group.variables.map(v => v.id).sort())).toEqual([
+      ['almostRed', 'red', 'red2'],
+      ['danger', 'error'],
+      ['four', 'fourish']
+    ]);
+  });
+});
+
+describe('Report export', () => {
+  const collection = makeCollection('col', {
+    name: 'Tokens', defaultModeId: 'light', modes: [{ modeId: 'light', name: 'Light' }, { modeId: 'dark', name: 'Dark' }], variableIds: ['brand', 'gap']
+  });
+  const variables: any[] = [
+    {
+      ...unpublished,
+      id: 'brand', name: 'color/brand/primary', variableCollectionId: 'col', resolvedType: 'COLOR',
+      scopes: ['ALL_FILLS', 'STROKE_COLOR'], description: 'Main "brand" colour, see | table',
+      valuesByMode: { light: { r: 1, g: 0, b: 0, a: 1 }, dark: { r: 0, g: 0, b: 0, a: 0.5 } }
+    },
+    { ...unpublished, id: 'gap', name: 'gap', variableCollectionId: 'col', resolvedType: 'FLOAT', scopes: ['GAP'], description: '', valuesByMode: { light: 8, dark: 8 } }
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const frame = { id: '1:1', name: 'Row', type: 'FRAME', boundVariables: { itemSpacing: alias('gap') } };
+    mockFigma.root.children = [{ id: 'page', name: 'Page', children: [frame] }];
+    mockFigma.variables.getLocalVariableCollections.mockReturnValue([collection]);
+    mockFigma.variables.getLocalVariables.mockReturnValue(variables);
+    mockFigma.variables.getVariableCollectionById.mockReturnValue(collection);
+    mockFigma.variables.getVariableById.mockImplementation((id: string) => variables.find(v => v.id === id) || null);
+  });
+
+  test('rows carry group path, mode values, scopes, description and usage count', async () => {
+    const index = await getVariableUsageIndex(true);
+    const rows = await buildReportRows(index, ['brand', 'gap', 'deleted']);
+
+    expect(rows).toEqual([
+      {
+        id: 'brand', name: 'color/brand/primary', groupPath: 'color/brand', collection: 'Tokens', resolvedType: 'COLOR',
+        values: [{ modeId: 'light', modeName: 'Light', value: '#FF0000' }, { modeId: 'dark', modeName: 'Dark', value: '#00000080' }],
+        scopes: ['ALL_FILLS', 'STROKE_COLOR'], description: 'Main "brand" colour, see | table', usageCount: 0
+      },
+      expect.objectContaining({ id: 'gap', groupPath: '', usageCount: 1 })
+    ]);
+    expect(JSON.parse(formatReport(rows, 'json', buildReportMetadata(index)))).toEqual({
+      scope: 'Whole file',
+      partial: false,
+      incomplete: false,
+      filter: expect.objectContaining({ types: [], namePattern: '' }),
+      generatedAt: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+      variables: rows
+    });
+  });
+
+  test('quotes CSV cells as a plain table and escapes Markdown pipes, after the report metadata', async () => {
+    const rows = await buildReportRows(await getVariableUsageIndex(true), ['brand', 'gap']);
+    const filter: VariableFilter = { types: ['COLOR'], scopes: [], modes: [], namePattern: '*brand*', groupPath: '', excludePublished: false };
+    const metadata = { scope: 'Current page: Page', partial: true, incomplete: true, filter, generatedAt: '2026-10-18T09:00:00.000Z' };
+
+    expect(formatReport(rows, 'csv', metadata).split('\r\n')).toEqual([
+      'ID,Name,Group,Collection,Type,Values,Scopes,Description,Usages',
+      'brand,color/brand/primary,color/brand,Tokens,COLOR,Light: #FF0000; Dark: #00000080,"ALL_FILLS, STROKE_COLOR","Main ""brand"" colour, see | table",0',
+      'gap,gap,,Tokens,FLOAT,Light: 8; Dark: 8,GAP,,1'
+    ]);
+    expect(formatReport(rows, 'markdown', metadata).split('\n')).toEqual([
+      '# Unused variables',
+      '',
+      '- Scope: Current page: Page',
+      '- Status: partial, unused within scope; incomplete, scan cancelled',
+      '- Filters: Types: COLOR · Name: *brand*',
+      '- Generated: 2026-10-18T09:00:00.000Z',
+      '',
+      '| ID | Name | Group | Collection | Type | Values | Scopes | Description | Usages |',
+      '| --- | --- | --- | --- | --- | --- | --- | --- | --- |',
+      '| brand | color/brand/primary | color/brand | Tokens | COLOR | Light: #FF0000; Dark: #00000080 | ALL_FILLS, STROKE_COLOR | Main "brand" colour, see \\| table | 0 |',
+      '| gap | gap |  | Tokens | FLOAT | Light: 8; Dark: 8 | GAP |  | 1 |'
+    ]);
+  });
+});
+
+describe('Report frame', () => {
+  // Scene nodes that keep their children and plugin data in memory
+  const makeNode = (type: string): any => {
+    const node: any = {
+      type, children: [], pluginData: {}, parent: null,
+      appendChild(child: any) { child.parent = node; node.children.push(child); },
+      remove() { node.parent.children = node.parent.children.filter((c: any) => c !== node); },
+      resize: jest.fn(),
+      setPluginData(key: string, value: string) { node.pluginData[key] = value; },
+      getPluginData(key: string) { return node.pluginData[key] || ''; }
+    };
+    return node;
+  };
+  const texts = (node: any): string[] =>
+    node.type === 'TEXT' ? [node.characters] : node.children.reduce((all: string[], child: any) => all.concat(texts(child)), []);
+  const collection = makeCollection('col', {
+    name: 'Tokens', defaultModeId: 'light', modes: [{ modeId: 'light', name: 'Light' }, { modeId: 'dark', name: 'Dark' }], variableIds: ['brand', 'gap']
+  });
+  const variables: any[] = [
+    { ...unpublished, id: 'brand', name: 'color/brand', variableCollectionId: 'col', resolvedType: 'COLOR', scopes: [], description: '', valuesByMode: { light: { r: 1, g: 0, b: 0, a: 1 }, dark: { r: 0, g: 0, b: 0, a: 0.5 } } },
+    { ...unpublished, id: 'gap', name: 'gap', variableCollectionId: 'col', resolvedType: 'FLOAT', scopes: [], description: '', valuesByMode: { light: 8, dark: 8 } }
+  ];
+  let page: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    page = makeNode('PAGE');
+    page.id = 'page';
+    page.name = 'Page';
+    mockFigma.root.children = [page];
+    mockFigma.currentPage = page;
+    mockFigma.createFrame.mockImplementation(() => makeNode('FRAME'));
+    mockFigma.createText.mockImplementation(() => makeNode('TEXT'));
+    mockFigma.createRectangle.mockImplementation(() => makeNode('RECTANGLE'));
+    mockFigma.variables.getVariableCollectionById.mockReturnValue(collection);
+    mockFigma.variables.getVariableById.mockImplementation((id: string) => variables.find(v => v.id === id) || null);
+  });
+
+  test('draws a header, a section per collection and a row per variable with swatches', async () => {
+    const index = await getVariableUsageIndex(true);
+    const report = await createReportFrame(await buildReportRows(index, ['brand', 'gap']), 'Whole file');
+
+    expect(page.children).toEqual([report]);
+    expect(report.getPluginData('unused-variables-report')).toBe('true');
+    expect(report.children.map((child: any) => child.name)).toEqual(['Header', 'Tokens']);
+    expect(texts(report.children[0])[2]).toBe('2 unused variables in 1 collection');
+    expect(texts(report.children[1])).toEqual([
+      'Tokens (2)',
+      'color/brand', 'COLOR', 'Light: #FF0000', 'Dark: #00000080', '0 layers',
+      'gap', 'FLOAT', 'Light: 8', 'Dark: 8', '0 layers'
+    ]);
+    const darkPreview = (report.children[1] as any).children[1].children[3];
+    expect(darkPreview.children[0].fills).toEqual([{ type: 'SOLID', color: { r: 0, g: 0, b: 0 }, opacity: 0.5 }]);
+  });
+
+  test('updates the existing report instead of adding another one', async () => {
+    const index = await getVariableUsageIndex(true);
+    const first = await createReportFrame(await buildReportRows(index, ['brand', 'gap']), 'Whole file');
+    const second = await createReportFrame(await buildReportRows(index, []), 'Current page');
+
+    expect(second).toBe(first);
+    expect(page.children).toEqual([first]);
+    expect(texts(second)).toEqual([
+      '📊 Unused Variables Report',
+      expect.stringContaining('Scope: Current page'),
+      '✅ No unused variables found!'
+    ]);
+  });
+});
+
+describe('Time-sliced scans', () => {
+  const variables: any[] = [
+    { ...unpublished, id: 'used', name: 'used', variableCollectionId: 'col', scopes: [], valuesByMode: {} },
+    { ...unpublished, id: 'late', name: 'late', variableCollectionId: 'col', scopes: [], valuesByMode: {} }
+  ];
+  // 2500 frames, the last one bound to "late"
+  const nodes = Array.from({ length: 2500 }, (_, i) => ({
+    id: `${i}:1`, name: `Frame ${i}`, type: 'FRAME',
+    boundVariables: { width: alias(i === 2499 ? 'late' : 'used') }
+  }));
+  const progressUpdates = () => mockFigma.ui.postMessage.mock.calls
+    .map(([message]) => message)
+    .filter(message => message.type === 'progress')
+    .map(message => message.progress);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFigma.root.children = [{ id: 'page', name: 'Page', children: nodes }];
+    mockFigma.variables.getLocalVariables.mockReturnValue(variables);
+    mockFigma.variables.getVariableCollectionById.mockReturnValue({ name: 'Tokens' });
+    mockFigma.variables.getVariableById.mockImplementation((id: string) => variables.find(v => v.id === id) || null);
+  });
+
+  test('reports progress after every batch', async () => {
+    const index = await getVariableUsageIndex(true);
+
+    expect(index.complete).toBe(true);
+    expect(progressUpdates()).toEqual([
+      expect.objectContaining({ currentBatch: 1, rootsWalked: 1000, totalRoots: 2500, nodesProcessed: 1000, variablesFound: 1 }),
+      expect.objectContaining({ currentBatch: 2, rootsWalked: 2000, totalRoots: 2500, nodesProcessed: 2000, variablesFound: 1 }),
+      expect.objectContaining({ currentBatch: 3, rootsWalked: 2500, totalRoots: 2500, nodesProcessed: 2500, variablesFound: 2 })
+    ]);
+    expect(progressUpdates()[0].timeElapsed).toBeGreaterThanOrEqual(0);
+  });
+
+  test('cancel stops between batches and labels the partial result', async () => {
+    const search = mockFigma.ui.onmessage!({ type: 'start-search', target: 'variables', collections: ['col'], scope: { type: 'document' } });
+    while (!progressUpdates().length) await new Promise(resolve => setTimeout(resolve, 0));
+    await mockFigma.ui.onmessage!({ type: 'cancel-analysis' });
+    await search;
+
+    const result = mockFigma.ui.postMessage.mock.calls.map(([message]) => message).find(message => message.type === 'complete');
+    expect(result.incomplete).toBe(true);
+    expect(result.variables.map((v: any) => v.id)).toEqual(['late']);
+    expect(progressUpdates().pop()).toEqual(expect.objectContaining({ currentBatch: 1, nodesProcessed: 1000 }));
+
+    // The partial index is not reused by the next analysis
+    expect((await getVariableUsageIndex()).complete).toBe(true);
+  });
+
+  test('collects layers as it walks, so cancel applies before a subtree is read', async () => {
+    const later = { id: 'later', name: 'Later', type: 'FRAME', children: jest.fn(() => []) };
+    const first = { id: 'first', name: 'First', type: 'FRAME', children: nodes };
+    mockFigma.root.children = [{ id: 'page', name: 'Page', children: [first, { ...later, get children() { return later.children(); } }] }];
+
+    const scan = getVariableUsageIndex(true);
+    while (!progressUpdates().length) await new Promise(resolve => setTimeout(resolve, 0));
+    await mockFigma.ui.onmessage!({ type: 'cancel-analysis' });
+    const index = await scan;
+
+    expect(index.complete).toBe(false);
+    expect(progressUpdates()[0]).toEqual(expect.objectContaining({ rootsWalked: 0, totalRoots: 2, nodesProcessed: 1000 }));
+    expect(later.children).not.toHaveBeenCalled();
+  });
+});
+
+describe('Usage cache', () => {
+  // Registered when code.ts is evaluated, before any mock is cleared
+  const onDocumentChange = mockFigma.on.mock.calls.find(([type]) => type === 'documentchange')![1];
+  let variables: any[];
+  let pageChildren: Mock;
+  const analyze = async () => {
+    await mockFigma.ui.onmessage!({ type: 'start-search', target: 'variables', collections: [], scope: { type: 'document' } });
+    const results = mockFigma.ui.postMessage.mock.calls.map(([message]) => message).filter(message => message.type === 'complete');
+    return results[results.length - 1];
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    variables = [
+      { ...unpublished, id: 'used', name: 'used', variableCollectionId: 'col', scopes: [], valuesByMode: {} },
+      { ...unpublished, id: 'spare', name: 'spare', variableCollectionId: 'col', scopes: [], valuesByMode: {} }
+    ];
+    const frame = { id: '1:1', name: 'Card', type: 'FRAME', boundVariables: { width: alias('used') } };
+    pageChildren = jest.fn(() => [frame]);
+    mockFigma.root.children = [{ id: 'page', name: 'Page', get children() { return pageChildren(); } }];
+    mockFigma.variables.getLocalVariables.mockImplementation(() => variables);
+    mockFigma.variables.getVariableCollectionById.mockReturnValue({ name: 'Tokens' });
+    mockFigma.variables.getVariableById.mockImplementation((id: string) => variables.find(v => v.id === id) || null);
+  });
+
+  test('a whole-file scan is stored per file and answers the next analysis without scanning', async () => {
+    const first = await analyze();
+    expect(first.cachedAt).toBeNull();
+    expect(mockFigma.clientStorage.storage['usage-cache:file1']).toMatchObject({ variables: { used: 1 }, nodesProcessed: 1 });
+
+    pageChildren.mockClear();
+    const second = await analyze();
+
+    expect(pageChildren).not.toHaveBeenCalled();
+    expect(second.cachedAt).toBe(mockFigma.clientStorage.storage['usage-cache:file1'].builtAt);
+    expect(second.variables).toEqual(first.variables);
+  });
+
+  test('only changes that can affect usage invalidate the cache', async () => {
+    await analyze();
+
+    onDocumentChange({ documentChanges: [{ type: 'PROPERTY_CHANGE', properties: ['x', 'y', 'name'] }] });
+    expect(mockFigma.clientStorage.storage['usage-cache:file1']).toBeDefined();
+
+    onDocumentChange({ documentChanges: [{ type: 'PROPERTY_CHANGE', properties: ['x', 'fills'] }] });
+    await Promise.resolve();
+    expect(mockFigma.clientStorage.storage['usage-cache:file1']).toBeUndefined();
+  });
+
+  test('variable changes are caught by the fingerprint', async () => {
+    await analyze();
+    variables.push({ ...unpublished, id: 'hover', name: 'hover', variableCollectionId: 'col', scopes: [], valuesByMode: { m: alias('spare') } });
+
+    pageChildren.mockClear();
+    const result = await analyze();
+
+    expect(pageChildren).toHaveBeenCalled();
+    expect(result.cachedAt).toBeNull();
+  });
+
+  test('style deletion checks a fresh scan, not the cache', async () => {
+    const brand: any = { id: 'S:1', name: 'Brand', type: 'PAINT', paints: [], remove: jest.fn() };
+    mockFigma.getLocalPaintStyles.mockReturnValue([brand]);
+    mockFigma.getStyleById.mockImplementation((id: string) => id === 'S:1' ? brand : null);
+    await mockFigma.ui.onmessage!({ type: 'start-search', target: 'styles', collections: [], scope: { type: 'document' } });
+
+    // Applied while the plugin was closed: no documentchange, same fingerprint
+    const badge = { id: '1:2', name: 'Badge', type: 'FRAME', fillStyleId: 'S:1' };
+    pageChildren.mockImplementation(() => [badge]);
+    await mockFigma.ui.onmessage!({ type: 'delete-styles', styles: [{ id: 'S:1', name: 'Brand' }] });
+
+    expect(brand.remove).not.toHaveBeenCalled();
+    expect(mockFigma.ui.postMessage).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'delete-result',
+      outcomes: [{ id: 'S:1', name: 'Brand', status: 'failed', error: 'Used by 1 layer' }]
+    }));
+    mockFigma.getLocalPaintStyles.mockReturnValue([]);
+    mockFigma.getStyleById.mockReturnValue(null);
+  });
+
+  test('variable deletion checks a fresh scan, not the cache', async () => {
+    const spare = variables.find(v => v.id === 'spare');
+    spare.remove = jest.fn();
+    expect((await analyze()).variables.map((v: any) => v.id)).toEqual(['spare']);
+
+    // Bound while the plugin was closed: no documentchange, same fingerprint
+    const badge = { id: '1:2', name: 'Badge', type: 'FRAME', boundVariables: { height: alias('spare') } };
+    pageChildren.mockImplementation(() => [badge]);
+    await mockFigma.ui.onmessage!({ type: 'delete-variables', variables: [{ id: 'spare', name: 'spare' }] });
+
+    expect(spare.remove).not.toHaveBeenCalled();
+    expect(mockFigma.ui.postMessage).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'delete-result',
+      outcomes: [{ id: 'spare', name: 'spare', status: 'failed', error: 'Used by 1 layer' }]
+    }));
+  });
+
+  test('clear cache reports what it removed', async () => {
+    await analyze();
+    await getVariableUsageIndex();
+
+    await mockFigma.ui.onmessage!({ type: 'clear-cache' });
+    await mockFigma.ui.onmessage!({ type: 'clear-cache' });
+
+    const cleared = mockFigma.ui.postMessage.mock.calls.map(([message]) => message).filter(message => message.type === 'cache-cleared');
+    expect(cleared[0].result).toEqual({ storedVariables: 1, storedStyles: 0, builtAt: expect.any(Number), inMemoryIndex: true });
+    expect(cleared[0].message).toMatch(/^Cleared saved usage of 1 variables and 0 styles from .+ and the usage index of this session$/);
+    expect(cleared[1].message).toBe('Nothing was cached');
+    expect(mockFigma.clientStorage.storage).toEqual({});
+  });
+});
+
+describe('Variable filters', () => {
+  const filter = (overrides: any) => ({ types: [], scopes: [], modes: [], namePattern: '', groupPath: '', ...overrides });
+  const collections: any = {
+    col: { name: 'Theme', modes: [{ modeId: 'l', name: 'Light' }, { modeId: 'd', name: 'Dark' }] },
+    prims: { name: 'Primitives', modes: [{ modeId: 'v', name: 'Value' }] }
+  };
+  const variables: any[] = [
+    { ...unpublished, id: 'red', name: 'color/legacy/red', variableCollectionId: 'prims', resolvedType: 'COLOR', scopes: ['ALL_SCOPES'], valuesByMode: {} },
+    { ...unpublished, id: 'dark', name: 'color/legacy/dark/bg', variableCollectionId: 'col', resolvedType: 'COLOR', scopes: ['FRAME_FILL'], valuesByMode: {} },
+    { ...unpublished, id: 'brand', name: 'color/brand', variableCollectionId: 'col', resolvedType: 'COLOR', scopes: ['TEXT_FILL'], valuesByMode: {} },
+    { ...unpublished, id: 'gap', name: 'space/gap-sm', variableCollectionId: 'prims', resolvedType: 'FLOAT', scopes: ['GAP'], valuesByMode: {} },
+    { ...unpublished, id: 'label', name: 'copy/Label', variableCollectionId: 'col', resolvedType: 'STRING', scopes: ['TEXT_CONTENT'], valuesByMode: {} }
+  ];
+  const ids = (f: any) => variables.filter(compileVariableFilter(filter(f))).map(v => v.id);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFigma.root.children = [{ id: 'page', name: 'Page', children: [] }];
+    mockFigma.variables.getLocalVariables.mockReturnValue(variables);
+    mockFigma.variables.getVariableCollectionById.mockImplementation((id: string) => collections[id]);
+  });
+
+  test('matches types, declared scopes and mode names', () => {
+    expect(ids({ types: ['FLOAT', 'STRING'] })).toEqual(['gap', 'label']);
+    expect(ids({ scopes: ['FRAME_FILL'] })).toEqual(['red', 'dark']);
+    expect(ids({ modes: ['Dark'] })).toEqual(['dark', 'brand', 'label']);
+  });
+
+  test('matches name globs, regular expressions and group paths', () => {
+    expect(ids({ namePattern: '*gap*' })).toEqual(['gap']);
+    expect(ids({ namePattern: '/^color\\/(brand|legacy\\/red)$/' })).toEqual(['red', 'brand']);
+    expect(ids({ groupPath: 'color/legacy/*' })).toEqual(['red', 'dark']);
+    expect(ids({ groupPath: 'color/legacy' })).toEqual(['red', 'dark']);
+    expect(ids({ groupPath: 'color/*' })).toEqual(['red', 'dark', 'brand']);
+    expect(() => ids({ namePattern: '/[/' })).toThrow('Invalid name pattern /[/');
+  });
+
+  test('narrows the analysis and labels the result', async () => {
+    const result = await analyzeCollections([], { type: 'document' }, filter({ types: ['COLOR'], groupPath: 'color/legacy/*' }));
+
+    expect(result.variables.map(v => v.id).sort()).toEqual(['dark', 'red']);
+    expect(result.stats.analyzed).toBe(2);
+    expect(result.filterLabel).toBe('Types: COLOR · Group: color/legacy/*');
+  });
+});
+
+describe('Unused modes', () => {
+  let collection: any;
+  let variables: any[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    collection = {
+      id: 'theme', name: 'Theme', defaultModeId: 'light', variableIds: ['bg', 'fg'],
+      modes: [
+        { modeId: 'light', name: 'Light' }, { modeId: 'dark', name: 'Dark' },
+        { modeId: 'old', name: 'Dark (old)' }, { modeId: 'brandB', name: 'Brand B' }, { modeId: 'promo', name: 'Promo' }
+      ],
+      removeMode: jest.fn((modeId: string) => {
+        collection.modes = collection.modes.filter((mode: any) => mode.modeId !== modeId);
+        variables.forEach(variable => delete variable.valuesByMode[modeId]);
+      })
+    };
+    variables = [
+      { ...unpublished, id: 'bg', name: 'bg', variableCollectionId: 'theme', valuesByMode: { light: 1, dark: 2, old: 3, brandB: 1, promo: 1 } },
+      { ...unpublished, id: 'fg', name: 'fg', variableCollectionId: 'theme', valuesByMode: { light: 1, dark: 2, old: 1, brandB: 1, promo: 1 } }
+    ];
+    const card = { id: '1:1', name: 'Card', type: 'FRAME', explicitVariableModes: { theme: 'dark' } };
+    const button = {
+      id: '1:2', name: 'Button', type: 'FRAME',
+      reactions: [{ actions: [{ type: 'SET_VARIABLE_MODE', variableCollectionId: 'theme', variableModeId: 'promo' }] }]
+    };
+    mockFigma.root.children = [{ id: 'page', name: 'Page', explicitVariableModes: {}, children: [card, button] }];
+    mockFigma.variables.getLocalVariables.mockImplementation(() => variables);
+    mockFigma.variables.getLocalVariableCollections.mockImplementation(() => [collection]);
+    mockFigma.variables.getVariableCollectionById.mockImplementation(() => collection);
+    mockFigma.variables.getVariableById.mockImplementation((id: string) => variables.find(v => v.id === id) || null);
+  });
+
+  test('reports modes no layer, page or prototype action selects, with the values they hold', async () => {
+    const modes = findUnusedModes(await getVariableUsageIndex(true));
+
+    expect(modes).toEqual([
+      { collectionId: 'theme', collectionName: 'Theme', modeId: 'old', modeName: 'Dark (old)', defaultModeName: 'Light', valueCount: 2, customValueCount: 1 },
+      { collectionId: 'theme', collectionName: 'Theme', modeId: 'brandB', modeName: 'Brand B', defaultModeName: 'Light', valueCount: 2, customValueCount: 0 }
+    ]);
+
+    mockFigma.root.children[0].explicitVariableModes = { theme: 'brandB' };
+    expect(findUnusedModes(await getVariableUsageIndex(true)).map(mode => mode.modeId)).toEqual(['old']);
+  });
+
+  test('removes only modes that are still unused, in one undo step', async () => {
+    const result = await removeUnusedModes([{ collectionId: 'theme', modeId: 'old' }, { collectionId: 'theme', modeId: 'dark' }]);
+
+    expect(result.removed.map(mode => mode.modeName)).toEqual(['Dark (old)']);
+    expect(result.errors).toEqual([{ name: 'dark', error: 'The mode is in use or no longer exists' }]);
+    expect(collection.removeMode).toHaveBeenCalledTimes(1);
+    expect(mockFigma.commitUndo).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('Collection hygiene', () => {
+  let collections: any[];
+  let variables: any[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Removing a collection takes its variables with it
+    const collection = (id: string, variableIds: string[]) => makeCollection(id, {
+      variableIds,
+      remove: jest.fn(() => {
+        collections = collections.filter(c => c.id !== id);
+        variables = variables.filter(v => !variableIds.includes(v.id));
+      })
+    });
+    collections = [collection('empty', []), collection('legacy', ['old']), collection('core', ['space', 'gap', 'label'])];
+    variables = [
+      makeVariable('old', { variableCollectionId: 'legacy', valuesByMode: { m1: 4 } }),
+      makeVariable('space', { variableCollectionId: 'core', valuesByMode: { m1: 8 } }),
+      makeVariable('gap', { variableCollectionId: 'core', valuesByMode: { m1: alias('gone') } }),
+      makeVariable('label', { variableCollectionId: 'core', valuesByMode: { m1: alias('old') } })
+    ];
+    const frame = { id: '1:1', name: 'Frame', type: 'FRAME', boundVariables: { itemSpacing: alias('space') } };
+    mockFigma.root.children = [{ id: 'page', name: 'Page', explicitVariableModes: {}, children: [frame] }];
+    mockFigma.variables.getLocalVariables.mockImplementation(() => variables);
+    mockFigma.variables.getLocalVariableCollections.mockImplementation(() => collections);
+    mockFigma.variables.getVariableCollectionById.mockImplementation((id: string) => collections.find(c => c.id === id) || null);
+    mockFigma.variables.getVariableById.mockImplementation((id: string) => variables.find(v => v.id === id) || null);
+    mockFigma.variables.createVariableAlias.mockImplementation((variable: any) => alias(variable.id));
+  });
+
+  test('lists empty and unused collections and dangling aliases without changing anything', async () => {
+    const issues = await findCollectionIssues(await getVariableUsageIndex(true));
+
+    expect(issues.emptyCollections.map(issue => issue.collectionName)).toEqual(['empty']);
+    expect(issues.unusedCollections).toEqual([
+      { collectionId: 'legacy', collectionName: 'legacy', variableCount: 1, modeCount: 1, externalReferrers: 1, published: [] }
+    ]);
+    expect(issues.danglingAliases).toEqual([{
+      variableId: 'gap', variableName: 'gap', collectionName: 'core', resolvedType: 'FLOAT',
+      modeId: 'm1', modeName: 'Default', missingId: 'gone'
+    }]);
+    collections.forEach(collection => expect(collection.remove).not.toHaveBeenCalled());
+  });
+
+  test('removes a collection only while it is still empty or unused', async () => {
+    const core = collections[2];
+    await expect(removeCollection('core')).rejects.toThrow('core has variables in use and was not removed');
+    expect(core.remove).not.toHaveBeenCalled();
+
+    expect(await removeCollection('legacy')).toBe('legacy');
+    expect(mockFigma.commitUndo).toHaveBeenCalledTimes(2);
+    expect(collections.map(collection => collection.id)).toEqual(['empty', 'core']);
+  });
+
+  test('backs up the variables of a removed collection and restores them into a new one', async () => {
+    mockFigma.root.pluginData = {};
+    mockFigma.root.setPluginData.mockImplementationOnce(() => { throw new Error('Plugin data is too large'); });
+    await expect(removeCollection('legacy')).rejects.toThrow('Plugin data is too large');
+    expect(collections[1].remove).not.toHaveBeenCalled();
+
+    await removeCollection('legacy');
+    const [backup] = getDeletionBackups();
+    expect(backup.removedCollection).toEqual({ id: 'legacy', name: 'legacy', modes: [{ modeId: 'm1', name: 'Default' }] });
+    expect(backup.variables.map(v => v.name)).toEqual(['old']);
+
+    const recreated: any = { id: 'legacy2', name: 'legacy', modes: [{ modeId: 'n1', name: 'Mode 1' }], renameMode: jest.fn(), addMode: jest.fn() };
+    mockFigma.variables.createVariableCollection.mockImplementation(() => {
+      collections.push(recreated);
+      return recreated;
+    });
+    mockFigma.variables.createVariable.mockImplementation((name: string, collection: any, resolvedType: string) => {
+      const created = makeVariable(`new-${name}`, { name, resolvedType, variableCollectionId: collection.id });
+      variables.push(created);
+      return created;
+    });
+    recreated.renameMode.mockImplementation((modeId: string, name: string) => { recreated.modes[0].name = name; });
+
+    expect(restoreVariables(backup.id, ['old'])).toEqual({ restored: ['old'], errors: [] });
+    expect(recreated.renameMode).toHaveBeenCalledWith('n1', 'Default');
+    expect(variables.find(v => v.id === 'new-old').valuesByMode).toEqual({ n1: 4 });
+    expect(variables.find(v => v.id === 'label').valuesByMode.m1).toEqual(alias('new-old'));
+  });
+
+  test('recreates a removed collection only once across partial restores', async () => {
+    variables.push(makeVariable('older', { variableCollectionId: 'legacy', valuesByMode: { m1: 2 } }));
+    collections[1].variableIds.push('older');
+    await removeCollection('legacy');
+    const [backup] = getDeletionBackups();
+
+    const recreated: any = { id: 'legacy2', name: 'legacy', modes: [{ modeId: 'n1', name: 'Default' }], renameMode: jest.fn(), addMode: jest.fn() };
+    mockFigma.variables.createVariableCollection.mockImplementation(() => {
+      collections.push(recreated);
+      return recreated;
+    });
+    mockFigma.variables.createVariable.mockImplementation((name: string, collection: any, resolvedType: string) => {
+      const created = makeVariable(`new-${name}`, { name, resolvedType, variableCollectionId: collection.id });
+      variables.push(created);
+      return created;
+    });
+
+    restoreVariables(backup.id, ['old']);
+    const [trimmed] = getDeletionBackups();
+    expect(trimmed.removedCollection!.id).toBe('legacy2');
+    expect(trimmed.variables.map(v => v.collectionId)).toEqual(['legacy2']);
+
+    expect(restoreVariables(backup.id, ['older'])).toEqual({ restored: ['older'], errors: [] });
+    expect(mockFigma.variables.createVariableCollection).toHaveBeenCalledTimes(1);
+    expect(variables.find(v => v.id === 'new-older').variableCollectionId).toBe('legacy2');
+  });
+
+  test('removes a collection with published variables only once confirmed', async () => {
+    variables.find(v => v.id === 'old').getPublishStatusAsync = async () => 'CURRENT';
+
+    await expect(removeCollection('legacy')).rejects.toThrow('legacy has variables published to the library');
+    expect(collections[1].remove).not.toHaveBeenCalled();
+
+    expect(await removeCollection('legacy', true)).toBe('legacy');
+  });
+
+  test('repairs a dangling alias with another variable or a literal value of the same type', () => {
+    const gap = variables.find(v => v.id === 'gap');
+
+    expect(() => repairDanglingAlias('gap', 'm1', { kind: 'value', value: '8px' })).toThrow('gap needs a FLOAT value');
+    variables.push({ id: 'color', name: 'color', resolvedType: 'COLOR', valuesByMode: {} });
+    expect(() => repairDanglingAlias('gap', 'm1', { kind: 'variable', variableId: 'color' })).toThrow('color is a COLOR variable');
+
+    expect(repairDanglingAlias('gap', 'm1', { kind: 'variable', variableId: 'space' })).toBe('space');
+    expect(gap.setValueForMode).toHaveBeenCalledWith('m1', alias('space'));
+    expect(() => repairDanglingAlias('gap', 'm1', { kind: 'value', value: 4 })).toThrow('no longer has a dangling alias');
+  });
+});
+
+describe('Keep-list', () => {
+  let variables: any[];
+  const onmessage = mockFigma.ui.onmessage!;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const dropVariable = (id: string) => { variables = variables.filter(v => v.id !== id); };
+    const variable = (id: string, name: string, variableCollectionId: string, description = '') =>
+      makeVariable(id, { name, variableCollectionId, description, valuesByMode: { m1: 1 } }, dropVariable);
+    variables = [
+      variable('pinned', 'spacing/pinned', 'core'),
+      variable('brand', 'color/brand/red', 'core'),
+      variable('reserved', 'reserved/blue', 'future'),
+      variable('tagged', 'radius/xl', 'core', 'For engineers only @keep'),
+      variable('draft', 'color/_draft/teal', 'core'),
+      variable('plain', 'color/plain', 'core')
+    ];
+    mockFigma.root.children = [{ id: 'page', name: 'Page', explicitVariableModes: {}, children: [] }];
+    mockFigma.variables.getLocalVariables.mockImplementation(() => variables);
+    mockFigma.variables.getVariableById.mockImplementation((id: string) => variables.find(v => v.id === id) || null);
+    mockFigma.variables.getVariableCollectionById
+      .mockImplementation((id: string) => makeCollection(id));
+    saveKeepList({ variableIds: ['pinned'], groups: ['color/brand/'], collectionIds: ['future'], prefix: '_', releasedIds: [] });
+  });
+
+  test('moves protected variables out of the unused results, with the reason', async () => {
+    const result = await analyzeCollections();
+
+    expect(result.variables.map(v => v.id)).toEqual(['plain']);
+    expect(result.protected.map(v => [v.id, v.protectedReason])).toEqual([
+      ['pinned', 'on the keep-list'],
+      ['brand', 'group color/brand is kept'],
+      ['reserved', 'collection future is kept'],
+      ['tagged', 'tagged @keep'],
+      ['draft', 'name starts with _']
+    ]);
+    expect(JSON.parse(mockFigma.root.sharedPluginData['select_unused_variables:keep-list']).groups).toEqual(['color/brand']);
+  });
+
+  test('blocks deleting a protected variable until it is unprotected', async () => {
+    const impact = await analyzeDeletionImpact(['brand']);
+    expect(impact.referenced).toEqual([{ id: 'brand', name: 'color/brand/red', reasons: ['protected: group color/brand is kept'] }]);
+
+    await onmessage({ type: 'delete-variables', variables: [{ id: 'brand', name: 'color/brand/red' }, { id: 'plain', name: 'color/plain' }] });
+    expect(variables.map(v => v.id)).toContain('brand');
+    expect(variables.map(v => v.id)).not.toContain('plain');
+    expect(mockFigma.ui.postMessage).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'delete-result',
+      outcomes: [
+        { id: 'plain', name: 'color/plain', status: 'deleted' },
+        { id: 'brand', name: 'color/brand/red', status: 'failed', error: 'Protected: group color/brand is kept' }
+      ]
+    }));
+
+    expect(setVariableProtection('brand', false).releasedIds).toEqual(['brand']);
+    expect((await analyzeDeletionImpact(['brand'])).referenced).toEqual([]);
+    expect(setVariableProtection('brand', true)).toEqual(expect.objectContaining({ variableIds: ['pinned'], releasedIds: [] }));
+  });
+});
+
+describe('Published variables', () => {
+  let variables: any[];
+  let collections: { [id: string]: any };
+  const onmessage = mockFigma.ui.onmessage!;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const dropVariable = (id: string) => { variables = variables.filter(v => v.id !== id); };
+    // Every local variable has a library key; only the publish status tells
+    // whether it was ever published
+    const variable = (id: string, variableCollectionId: string, status: PublishStatus, hiddenFromPublishing = false) =>
+      makeVariable(id, {
+        key: `key-${id}`, hiddenFromPublishing, variableCollectionId, valuesByMode: { m1: 1 },
+        getPublishStatusAsync: async () => status
+      }, dropVariable);
+    collections = {
+      tokens: makeCollection('tokens', { name: 'Tokens', modes: [] }),
+      internal: makeCollection('internal', { name: 'Internal', hiddenFromPublishing: true, modes: [] })
+    };
+    variables = [
+      variable('shared', 'tokens', 'CURRENT'),
+      variable('hidden', 'tokens', 'CHANGED', true),
+      variable('private', 'internal', 'CURRENT'),
+      variable('local', 'tokens', 'UNPUBLISHED')
+    ];
+    mockFigma.root.children = [{ id: 'page', name: 'Page', explicitVariableModes: {}, children: [] }];
+    mockFigma.variables.getLocalVariables.mockImplementation(() => variables);
+    mockFigma.variables.getVariableById.mockImplementation((id: string) => variables.find(v => v.id === id) || null);
+    mockFigma.variables.getVariableCollectionById.mockImplementation((id: string) => collections[id] || null);
+  });
+
+  test('lists unused published variables apart, or leaves them out on request', async () => {
+    const result = await analyzeCollections();
+    expect(result.variables.map(v => v.id)).toEqual(['hidden', 'private', 'local']);
+    expect(result.published).toEqual([{ id: 'shared', name: 'shared', collection: 'Tokens', published: true }]);
+
+    const filtered = await analyzeCollections([], { type: 'document' }, {
+      types: [], scopes: [], modes: [], namePattern: '', groupPath: '', excludePublished: true
+    });
+    expect(filtered.published).toEqual([]);
+    expect(filtered.variables.map(v => v.id)).toEqual(['hidden', 'private', 'local']);
+    expect(filtered.filterLabel).toBe('Unpublished only');
+  });
+
+  test('deletes published variables only once the deletion is confirmed for them', async () => {
+    expect((await analyzeDeletionImpact(['shared', 'local'])).published).toEqual(['shared']);
+
+    await onmessage({ type: 'delete-variables', variables: [{ id: 'shared', name: 'shared' }] });
+    expect(variables.map(v => v.id)).toContain('shared');
+    expect(mockFigma.ui.postMessage).toHaveBeenCalledWith(expect.objectContaining({
+      outcomes: [{ id: 'shared', name: 'shared', status: 'failed', error: 'Published to the library, confirm to delete' }]
+    }));
+
+    await onmessage({ type: 'delete-variables', variables: [{ id: 'shared', name: 'shared' }], confirmPublished: true });
+    expect(variables.map(v => v.id)).not.toContain('shared');
+  });
+});
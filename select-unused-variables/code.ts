@@ -14,6 +14,23 @@ interface VariableResult {
   name: string;
   collection: string;
   id: string;
+  chainId?: string;
+  // Layers bound to the variable, set for low-usage variables
+  usageCount?: number;
+  // Why an unused variable is kept, set for protected variables
+  protectedReason?: string;
+  // Set for variables published to the team library, see isPublishedVariable
+  published?: boolean;
+}
+
+/**
+ * Unused variables linked by aliases, in deletion order: every variable comes
+ * before the variables it aliases
+ */
+interface DeadAliasChain {
+  id: string;
+  variableIds: string[];
+  names: string[];
 }
 
 interface UIState {
@@ -44,22 +61,88 @@ interface BatchConfig {
 
 interface ProgressUpdate {
   currentBatch: number;
-  totalBatches: number;
+  // Top-level layers of the scope walked so far; their total is known up front,
+  // unlike the number of nodes below them
+  rootsWalked: number;
+  totalRoots: number;
   nodesProcessed: number;
   variablesFound: number;
   timeElapsed: number;
 }
 
 // Constants for variable binding properties
-const BINDABLE_PROPERTIES = [
+// Every field Figma binds through node.boundVariables with a single alias
+const BINDABLE_NODE_FIELDS: VariableBindableNodeField[] = [
+  'height',
+  'width',
+  'characters',
+  'itemSpacing',
+  'paddingLeft',
+  'paddingRight',
+  'paddingTop',
+  'paddingBottom',
+  'visible',
+  'topLeftRadius',
+  'topRightRadius',
+  'bottomLeftRadius',
+  'bottomRightRadius',
+  'minWidth',
+  'maxWidth',
+  'minHeight',
+  'maxHeight',
+  'counterAxisSpacing',
+  'strokeWeight',
+  'strokeTopWeight',
+  'strokeRightWeight',
+  'strokeBottomWeight',
+  'strokeLeftWeight',
+  'opacity'
+];
+
+// Typography fields bound per character range on text nodes and on text styles
+const BINDABLE_TEXT_FIELDS: VariableBindableTextField[] = [
+  'fontFamily',
+  'fontSize',
+  'fontStyle',
+  'fontWeight',
+  'letterSpacing',
+  'lineHeight',
+  'paragraphSpacing',
+  'paragraphIndent'
+];
+
+// Node arrays whose items (Paint, Effect, LayoutGrid) carry their own bindings
+const BINDABLE_ARRAY_PROPERTIES = [
   'fills',
   'strokes',
   'effects',
-  'opacity',
-  'layoutGrids',
-  'componentProperties'
+  'layoutGrids'
 ] as const;
 
+// Scopes used to categorize variables in the design map
+const TYPOGRAPHY_SCOPES: VariableScope[] = [
+  'FONT_FAMILY',
+  'FONT_STYLE',
+  'FONT_WEIGHT',
+  'FONT_SIZE',
+  'LINE_HEIGHT',
+  'LETTER_SPACING',
+  'PARAGRAPH_SPACING',
+  'PARAGRAPH_INDENT'
+];
+
+const EFFECT_SCOPES: VariableScope[] = ['EFFECT_FLOAT', 'EFFECT_COLOR'];
+
+// Variables bound to this many layers or fewer are offered for detaching
+const LOW_USAGE_LIMIT = 3;
+
+const STYLE_TYPE_LABELS: { [type in StyleType]: string } = {
+  PAINT: 'Paint styles',
+  TEXT: 'Text styles',
+  EFFECT: 'Effect styles',
+  GRID: 'Grid styles'
+};
+
 // Add new interface for collection
 interface CollectionInfo {
   name: string;
@@ -88,6 +171,391 @@ interface VariableAlias {
   type: 'VARIABLE_ALIAS';
 }
 
+interface AnalysisStats {
+  totalVariables: number;
+  analyzed: number;
+  unused: number;
+}
+
+/** A local variable as listed by the usages navigator */
+interface VariableSummary {
+  id: string;
+  name: string;
+  collection: string;
+  resolvedType: VariableResolvedDataType;
+  // Number of nodes the variable is bound to, directly or indirectly
+  usageCount: number;
+  // Set for variables published to the team library, see isPublishedVariable
+  published?: boolean;
+  // Why the variable may not be deleted, set for protected variables
+  protectedReason?: string;
+}
+
+interface ModeValue {
+  modeId: string;
+  modeName: string;
+  value: string;
+}
+
+/** One variable of an exported report, see buildReportRows */
+interface ReportRow {
+  id: string;
+  name: string;
+  // Name without its last segment, e.g. color/brand for color/brand/primary
+  groupPath: string;
+  collection: string;
+  resolvedType: VariableResolvedDataType;
+  values: ModeValue[];
+  scopes: VariableScope[];
+  description: string;
+  usageCount: number;
+}
+
+/** What an exported report covers, written ahead of its rows, see buildReportMetadata */
+interface ReportMetadata {
+  // Scan scope label, see describeScanScope
+  scope: string;
+  // Only part of the file was scanned, so rows are unused within scope
+  partial: boolean;
+  // The scan was cancelled before it walked the whole scope
+  incomplete: boolean;
+  // Filters the listed variables passed
+  filter: VariableFilter;
+  // ISO 8601 time the report was generated
+  generatedAt: string;
+}
+
+type ReportFormat = 'json' | 'csv' | 'markdown';
+
+/** A variable bound somewhere in the current selection */
+interface SelectionVariable extends VariableSummary {
+  values: ModeValue[];
+  properties: string[];
+  kinds: VariableUsageKind[];
+  // Variables in the selection that reach this one through an alias
+  aliasedBy: string[];
+  // Bindings set by an instance override, as `layer: property`
+  overrides: string[];
+  nodeIds: string[];
+}
+
+interface PageUsages {
+  pageId: string;
+  pageName: string;
+  usages: VariableUsageMap[];
+}
+
+/** What deleting a set of variables would touch, see analyzeDeletionImpact */
+interface DeletionImpact {
+  variableCount: number;
+  // Selected variables that something still references; these block deletion
+  referenced: { id: string; name: string; reasons: string[] }[];
+  brokenAliases: { variableName: string; modeName: string; targetName: string }[];
+  danglingStyleBindings: { styleName: string; property: string; variableId: string; variableName: string }[];
+  emptyCollections: string[];
+  // Selected variables published to the library; deleting them needs confirmPublished
+  published: string[];
+}
+
+/** Bindings replaced on behalf of a merge or a detach, see replaceVariableUsages */
+interface ReplacementResult {
+  pages: { pageId: string; pageName: string; moved: number }[];
+  styles: number;
+  aliases: number;
+  // Prototype actions still reading the source, which keep it from being deleted
+  skipped: number;
+  // Layers, styles and aliases that could not be rebound; these keep the source too
+  errors: { name: string; error: string }[];
+  deleted: boolean;
+}
+
+interface MergeResult extends ReplacementResult {
+  sourceName: string;
+  targetId: string;
+  targetName: string;
+}
+
+interface DetachResult extends ReplacementResult {
+  sourceId: string;
+  sourceName: string;
+}
+
+/** A mode nothing in the file switches to, see findUnusedModes */
+interface UnusedMode {
+  collectionId: string;
+  collectionName: string;
+  modeId: string;
+  modeName: string;
+  defaultModeName: string;
+  // Values set in the mode, all dropped when it is removed
+  valueCount: number;
+  // Of those, values that differ from the default mode
+  customValueCount: number;
+}
+
+interface ModeRemovalResult {
+  removed: UnusedMode[];
+  errors: { name: string; error: string }[];
+}
+
+/** A collection offered for removal by the hygiene step */
+interface CollectionIssue {
+  collectionId: string;
+  collectionName: string;
+  variableCount: number;
+  modeCount: number;
+  // Aliases from variables in other collections, left dangling by a removal
+  externalReferrers: number;
+  // Names of its variables published to the library; removal needs confirmPublished
+  published: string[];
+}
+
+/** An alias whose target variable no longer exists */
+interface DanglingAlias {
+  variableId: string;
+  variableName: string;
+  collectionName: string;
+  resolvedType: VariableResolvedDataType;
+  modeId: string;
+  modeName: string;
+  missingId: string;
+}
+
+interface CollectionHygiene {
+  emptyCollections: CollectionIssue[];
+  // Collections where no variable is used, directly or through an alias
+  unusedCollections: CollectionIssue[];
+  danglingAliases: DanglingAlias[];
+}
+
+/** What a dangling alias is replaced with: a literal value or another variable */
+type AliasRepair =
+  | { kind: 'value'; value: VariableValue }
+  | { kind: 'variable'; variableId: string };
+
+/** How close two resolved values may be and still count as duplicates */
+interface DuplicateOptions {
+  // Euclidean distance between colours, in 0-255 RGBA units
+  colorDistance: number;
+  // Largest difference between two numbers
+  floatTolerance: number;
+}
+
+/** Variables resolving to the same value in every mode, see findDuplicateVariables */
+interface DuplicateGroup {
+  category: keyof DesignVariableMap;
+  resolvedType: VariableResolvedDataType;
+  // Resolved values of the first variable, in mode order
+  values: string[];
+  variables: VariableSummary[];
+  totalUsage: number;
+}
+
+/** What happened to one variable or style of a deletion request */
+interface DeletionOutcome {
+  id: string;
+  name: string;
+  status: 'deleted' | 'not-found' | 'failed';
+  error?: string;
+}
+
+/** A variable as it was right before deletion */
+interface VariableBackup {
+  id: string;
+  name: string;
+  collectionId: string;
+  collectionName: string;
+  resolvedType: VariableResolvedDataType;
+  valuesByMode: { [modeId: string]: VariableValue };
+  modeNames: { [modeId: string]: string };
+  scopes: VariableScope[];
+  codeSyntax: { [platform in CodeSyntaxPlatform]?: string };
+  description: string;
+  hiddenFromPublishing: boolean;
+  // Modes of other variables that aliased this one
+  referrers: AliasReferrer[];
+}
+
+interface AliasReferrer {
+  variableId: string;
+  modeId: string;
+}
+
+/** One deletion run, stored in document plugin data under its id */
+interface DeletionBackup {
+  id: string;
+  deletedAt: number;
+  variables: VariableBackup[];
+  // Set when a whole collection was removed, so restoring can recreate it
+  removedCollection?: RemovedCollection;
+}
+
+interface RemovedCollection {
+  id: string;
+  name: string;
+  modes: { modeId: string; name: string }[];
+}
+
+interface RestoreResult {
+  restored: string[];
+  errors: { name: string; error: string }[];
+}
+
+/** What an analysis looks for: unused variables or unused local styles */
+type AnalysisTarget = 'variables' | 'styles';
+
+/** Part of the file an analysis walks to find usages */
+type ScanScope =
+  | { type: 'document' }
+  | { type: 'current-page' }
+  | { type: 'pages'; pageIds: string[] }
+  | { type: 'selection' };
+
+interface ScopedRoots {
+  page: PageNode;
+  roots: readonly SceneNode[];
+}
+
+/**
+ * Result of an analysis. For the styles target each entry of `variables`
+ * describes a style and `collection` holds its style type.
+ */
+interface AnalysisResult {
+  target: AnalysisTarget;
+  variables: VariableResult[];
+  chains: DeadAliasChain[];
+  // Used variables with at most LOW_USAGE_LIMIT layers, candidates for detaching
+  lowUsage: VariableResult[];
+  stats: AnalysisStats;
+  scope: ScanScope;
+  scopeLabel: string;
+  // True when only part of the file was scanned: results are unused within
+  // the scope, not necessarily safe to delete file-wide
+  partial: boolean;
+  // True when the scan was cancelled: unused results may be used in unscanned nodes
+  incomplete: boolean;
+  // When the stored usage cache the results come from was built, null after a scan
+  cachedAt: number | null;
+  // Active filters, empty when every variable was analyzed
+  filterLabel: string;
+  // Unused variables the keep-list protects; never offered for deletion
+  protected: VariableResult[];
+  // Unused here but published, so files using the library may still use them
+  published: VariableResult[];
+}
+
+/**
+ * Variables that are unused on purpose, stored in shared plugin data so every
+ * editor of the file sees the same list
+ */
+interface KeepList {
+  variableIds: string[];
+  // Group paths such as color/brand; every variable below them is kept
+  groups: string[];
+  collectionIds: string[];
+  // Variables with a name or group starting with this prefix are kept, empty to disable
+  prefix: string;
+  // Variables unprotected explicitly although a group, collection, tag or prefix keeps them
+  releasedIds: string[];
+}
+
+/**
+ * Narrows a variable analysis; empty lists and patterns match everything
+ */
+interface VariableFilter {
+  types: VariableResolvedDataType[];
+  // Variables declaring at least one of these scopes, ALL_SCOPES matches any
+  scopes: VariableScope[];
+  // Variables whose collection has a mode with one of these names
+  modes: string[];
+  // Glob on the full name (* and ?), or a regular expression written as /pattern/flags
+  namePattern: string;
+  // Slash-delimited glob matching the variable or one of its groups, e.g. color/legacy/*
+  groupPath: string;
+  // Leaves out variables published to the library, see isPublishedVariable
+  excludePublished: boolean;
+}
+
+// Message protocol shared with ui.html. Every message crossing the iframe
+// boundary must be listed here so a renamed type fails to compile, on the UI
+// side through check-ui-protocol.js.
+
+/** Messages sent from the UI to the plugin */
+type UIMessage =
+  | { type: 'init' }
+  | { type: 'get-variable-types' }
+  | { type: 'start-search'; target: AnalysisTarget; collections: string[]; scope: ScanScope; filter?: VariableFilter }
+  | { type: 'auto-analyze'; collections: string[]; scope: ScanScope; filter?: VariableFilter }
+  | { type: 'cancel-analysis' }
+  | { type: 'clear-cache' }
+  | { type: 'print-unused'; variableIds: string[]; scope: ScanScope; filter?: VariableFilter }
+  | { type: 'export-report'; format: ReportFormat; variableIds: string[]; scope: ScanScope; filter?: VariableFilter }
+  | { type: 'delete-variables'; variables: Pick<VariableResult, 'id' | 'name'>[]; confirmPublished?: boolean }
+  | { type: 'delete-styles'; styles: Pick<VariableResult, 'id' | 'name'>[] }
+  | { type: 'list-variables' }
+  | { type: 'find-usages'; variableId: string }
+  | { type: 'select-nodes'; pageId: string; nodeIds: string[] }
+  | { type: 'preview-deletion'; variables: Pick<VariableResult, 'id' | 'name'>[] }
+  | { type: 'merge-variables'; sourceId: string; targetId: string; deleteSource: boolean; confirmPublished?: boolean }
+  | { type: 'detach-variable'; variableId: string; confirmPublished?: boolean }
+  | { type: 'list-backups' }
+  | { type: 'restore-variables'; backupId: string; variableIds: string[] }
+  | { type: 'map-design-variables' }
+  | { type: 'find-duplicates'; options: DuplicateOptions }
+  | { type: 'find-unused-modes' }
+  | { type: 'remove-modes'; modes: { collectionId: string; modeId: string }[] }
+  | { type: 'find-collection-issues' }
+  | { type: 'remove-collection'; collectionId: string; confirmPublished?: boolean }
+  | { type: 'repair-alias'; variableId: string; modeId: string; repair: AliasRepair }
+  | { type: 'get-keep-list' }
+  | { type: 'save-keep-list'; keepList: KeepList }
+  | { type: 'set-protection'; variableId: string; protect: boolean }
+  | { type: 'close' };
+
+/** Messages sent from the plugin to the UI */
+type PluginMessage =
+  | { type: 'collections'; collections: (CollectionInfo & { variableIds: string[] })[] }
+  | { type: 'variable-types'; types: VariableResolvedDataType[]; scopes: VariableScope[]; modes: string[] }
+  | { type: 'pages'; pages: { id: string; name: string }[]; currentPageId: string }
+  | { type: 'variable-list'; variables: VariableSummary[] }
+  | { type: 'variable-usages'; variable: VariableSummary; pages: PageUsages[] }
+  | { type: 'selection-variables'; selectionCount: number; variables: SelectionVariable[] }
+  | { type: 'deletion-impact'; impact: DeletionImpact }
+  | ({ type: 'merge-result' } & MergeResult)
+  | ({ type: 'detach-result' } & DetachResult)
+  | { type: 'backups'; backups: DeletionBackup[] }
+  | ({ type: 'restore-result' } & RestoreResult)
+  | { type: 'complete' } & AnalysisResult
+  | { type: 'auto-analysis-result' } & AnalysisResult
+  | { type: 'progress'; progress: ProgressUpdate }
+  | { type: 'status-update'; stats: StatusUpdate }
+  | {
+      type: 'delete-result';
+      success: true;
+      stats: { total: number; success: number; errors: number };
+      outcomes: DeletionOutcome[];
+    }
+  | { type: 'delete-result'; success: false; error: string }
+  | { type: 'design-variables-mapped'; data: { [category in keyof DesignVariableMap]: [string, VariableInfo][] } }
+  | { type: 'cache-cleared'; result: ClearCacheResult; message: string }
+  | { type: 'report-file'; filename: string; mimeType: string; content: string }
+  | { type: 'unused-modes'; modes: UnusedMode[] }
+  | ({ type: 'modes-removed' } & ModeRemovalResult)
+  | { type: 'collection-issues'; issues: CollectionHygiene; variables: VariableSummary[] }
+  | {
+      type: 'keep-list';
+      keepList: KeepList;
+      collections: { id: string; name: string }[];
+      // Names of the variables the keep-list refers to by id
+      variables: { id: string; name: string; collection: string }[];
+    }
+  | { type: 'duplicates'; groups: DuplicateGroup[]; options: DuplicateOptions }
+  | { type: 'error'; message: string };
+
+function postToUI(message: PluginMessage): void {
+  figma.ui.postMessage(message);
+}
+
 // Add utility functions for variable ID handling
 function getCleanVariableIds(rawIds: string[]): string[] {
   return rawIds.map(id => id.replace(/^VariableID:/, ''));
@@ -105,691 +573,3422 @@ function validateVariablesExist(ids: string[]): boolean {
 }
 
 /**
- * Recursively scans nodes for variable usage
+ * How a variable reaches a node: bound on the node itself, bound on a style
+ * the node uses, read or written by a prototype interaction, or reached
+ * through another variable that aliases it
  */
-async function scanNodes(nodes: ReadonlyArray<SceneNode>, usedVars: Set<string>): Promise<void> {
-  for (const node of nodes) {
-    // Check component instances
-    if (node.type === 'INSTANCE') {
-      try {
-        const mainComponent = node.mainComponent;
-        if (mainComponent) {
-          await checkVariableUsage(mainComponent, usedVars);
-        }
-      } catch (error) {
-        console.warn(`⚠️ Error checking component instance: ${error}`);
-      }
-    }
+type VariableUsageKind = 'direct' | 'style' | 'prototype' | 'alias';
+
+interface VariableUsageRecord {
+  variableId: string;
+  nodeId: string;
+  nodeName: string;
+  nodeType: string;
+  pageId: string;
+  pageName: string;
+  property: string;
+  kind: VariableUsageKind;
+  via?: string;
+}
 
-    // Check current node
-    await checkVariableUsage(node, usedVars);
+interface StyleUsageRecord {
+  styleId: string;
+  nodeId: string;
+  nodeName: string;
+  pageId: string;
+  pageName: string;
+  property: string;
+}
 
-    // Recursively check children
-    if ('children' in node) {
-      await scanNodes(node.children, usedVars);
-    }
+/**
+ * Single source of truth for variable usage, built by one walk of the document
+ */
+interface VariableUsageIndex {
+  usages: Map<string, VariableUsageRecord[]>;
+  styleUsages: Map<string, StyleUsageRecord[]>;
+  aliasTargets: Map<string, Set<string>>;
+  aliasReferrers: Map<string, Set<string>>;
+  prototypeModes: Map<string, Set<string>>;
+  // Modes set on layers through explicitVariableModes, by collection
+  explicitModes: Map<string, Set<string>>;
+  scope: ScanScope;
+  nodesProcessed: number;
+  builtAt: number;
+  // False when the scan was cancelled before every node was indexed
+  complete: boolean;
+}
+
+interface AliasLocation {
+  id: string;
+  path: string;
+}
+
+interface StyleReference {
+  styleId: string;
+  path: string;
+}
+
+interface ModeSwitch {
+  collectionId: string;
+  modeId: string;
+  path: string;
+}
+
+interface ReactionScan {
+  aliases: AliasLocation[];
+  modeSwitches: ModeSwitch[];
+}
+
+const STYLE_ID_PROPERTIES = [
+  'fillStyleId',
+  'strokeStyleId',
+  'textStyleId',
+  'effectStyleId',
+  'gridStyleId'
+] as const;
+
+const DOCUMENT_SCOPE: ScanScope = { type: 'document' };
+
+let usageIndex: VariableUsageIndex | null = null;
+
+function isVariableAlias(value: unknown): value is VariableAlias {
+  return typeof value === 'object' && value !== null &&
+    (value as VariableAlias).type === 'VARIABLE_ALIAS' &&
+    typeof (value as VariableAlias).id === 'string';
+}
+
+/**
+ * Collects every variable alias nested in a bindings object, with its property path
+ */
+function collectVariableAliases(value: unknown, path: string, found: AliasLocation[] = []): AliasLocation[] {
+  if (isVariableAlias(value)) {
+    found.push({ id: value.id, path });
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => collectVariableAliases(item, `${path}[${i}]`, found));
+  } else if (typeof value === 'object' && value !== null) {
+    Object.entries(value).forEach(([key, item]) => collectVariableAliases(item, `${path}.${key}`, found));
   }
+  return found;
 }
 
 /**
- * Checks a node for variable usage across all bindable properties
+ * Lists the bindings of each item of a Paint, Effect or LayoutGrid array,
+ * including the color stops of gradient paints
  */
-async function checkVariableUsage(node: BaseNode, usedVars: Set<string>): Promise<void> {
-  try {
-    // Check nested components
-    if (node.type === 'INSTANCE' && node.mainComponent) {
-      await checkVariableUsage(node.mainComponent, usedVars);
-      
-      // Also check component properties
-      const properties = node.componentProperties;
-      if (properties) {
-        Object.values(properties).forEach(prop => {
-          if (prop.boundVariables) {
-            Object.values(prop.boundVariables).forEach(binding => {
-              const bindings = Array.isArray(binding) ? binding : [binding];
-              bindings.forEach(b => {
-                if (b?.type === 'VARIABLE_ALIAS' && b.id) {
-                  usedVars.add(b.id);
-                }
-              });
-            });
-          }
-        });
-      }
-    }
+function collectItemAliases(items: unknown, path: string, found: AliasLocation[] = []): AliasLocation[] {
+  if (!Array.isArray(items)) return found;
 
-    // Check bound variables in all bindable properties
-    for (const prop of BINDABLE_PROPERTIES) {
-      if ((node as any)[prop]?.boundVariables) {
-        const boundVars = (node as any)[prop].boundVariables;
-        for (const binding of Object.values(boundVars)) {
-          const bindings = Array.isArray(binding) ? binding : [binding];
-          bindings.forEach((b: VariableBinding | undefined) => {
-            if (b?.type === 'VARIABLE_ALIAS' && b.id) {
-              usedVars.add(b.id);
-            }
-          });
+  items.forEach((item: any, i: number) => {
+    if (item?.boundVariables) {
+      collectVariableAliases(item.boundVariables, `${path}[${i}].boundVariables`, found);
+    }
+    if (Array.isArray(item?.gradientStops)) {
+      item.gradientStops.forEach((stop: ColorStop, j: number) => {
+        if (stop?.boundVariables) {
+          collectVariableAliases(stop.boundVariables, `${path}[${i}].gradientStops[${j}].boundVariables`, found);
         }
-      }
+      });
     }
+  });
+  return found;
+}
 
-    // Enhanced text style check
-    if (node.type === 'TEXT') {
-      const textNode = node as TextNode;
-      
-      // Check text style
-      const textStyleId = textNode.textStyleId as string;
-      if (textStyleId) {
-        const textStyle = figma.getStyleById(textStyleId);
-        if (textStyle?.boundVariables) {
-          Object.values(textStyle.boundVariables).forEach(binding => {
-            const bindings = Array.isArray(binding) ? binding : [binding];
-            bindings.forEach(b => {
-              if (b?.type === 'VARIABLE_ALIAS' && b.id) {
-                usedVars.add(b.id);
-              }
-            });
-          });
-        }
-      }
+function getTextRangePath(segment: { start: number; end: number }): string {
+  return `textRange[${segment.start}:${segment.end}]`;
+}
 
-      // Check text fills and effects
-      const textProperties = ['fills', 'effects'] as const;
-      textProperties.forEach(prop => {
-        const style = (textNode as any)[prop];
-        if (style?.boundVariables) {
-          Object.values(style.boundVariables).forEach(binding => {
-            const bindings = Array.isArray(binding) ? binding : [binding];
-            bindings.forEach(b => {
-              if (b?.type === 'VARIABLE_ALIAS' && b.id) {
-                usedVars.add(b.id);
-              }
-            });
-          });
-        }
-      });
+/**
+ * Lists the typography and fill bindings of every styled range of a text node,
+ * so a mixed-style layer reports the variables of each range
+ */
+function getTextRangeAliases(node: TextNode): AliasLocation[] {
+  const found: AliasLocation[] = [];
+
+  node.getStyledTextSegments(['boundVariables', 'fills']).forEach(segment => {
+    const path = getTextRangePath(segment);
+    for (const field of BINDABLE_TEXT_FIELDS) {
+      collectVariableAliases(segment.boundVariables?.[field], `${path}.boundVariables.${field}`, found);
     }
-  } catch (error) {
-    console.warn(`⚠️ Error checking variable usage for node ${node.name}: ${error}`);
-  }
+    collectItemAliases(segment.fills, `${path}.fills`, found);
+  });
+  return found;
 }
 
 /**
- * Gets truly unused variables by checking all possible usages
+ * Lists the styles a node references, reading text and fill styles per range
+ * when a text node mixes several of them
  */
-async function getTrulyUnusedVariables(): Promise<Variable[]> {
-  const usedVars = new Set<string>();
-  
-  try {
-    // Check all modes in all collections first
-    const collections = figma.variables.getLocalVariableCollections();
-    collections.forEach(collection => {
-      Object.values(collection.modes).forEach(mode => {
-        const modeVariables = collection.variableIds.map(id => figma.variables.getVariableById(id));
-        modeVariables.forEach(variable => {
-          if (variable?.id) {
-            // Check if the variable is referenced by other variables
-            collections.forEach(c => {
-              c.variableIds.forEach(vid => {
-                const v = figma.variables.getVariableById(vid);
-                if (v) {
-                  // Check all modes for this variable
-                  Object.entries(v.valuesByMode).forEach(([modeId, modeValue]) => {
-                    try {
-                      // Check direct value references
-                      if (typeof modeValue === 'object' && modeValue !== null) {
-                        // Cast to any to check internal structure
-                        const valueObj = modeValue as any;
-                        if (valueObj.type === 'VARIABLE_ALIAS' && valueObj.id === variable.id) {
-                          usedVars.add(variable.id);
-                        }
-                      }
-                      
-                      // Check variable references in other variables
-                      collection.variableIds.forEach(otherId => {
-                        if (otherId !== variable.id) {
-                          const otherVar = figma.variables.getVariableById(otherId);
-                          if (otherVar && typeof otherVar.valuesByMode[modeId] === 'object') {
-                            const value = otherVar.valuesByMode[modeId] as any;
-                            if (value?.type === 'VARIABLE_ALIAS' && value.id === variable.id) {
-                              usedVars.add(variable.id);
-                            }
-                          }
-                        }
-                      });
-                    } catch (error) {
-                      console.warn(`⚠️ Error checking variable reference in mode ${modeId}: ${error}`);
-                    }
-                  });
-                }
-              });
-            });
-          }
-        });
-      });
-    });
+function getNodeStyleReferences(node: SceneNode): StyleReference[] {
+  const found: StyleReference[] = [];
 
-    // Scan all pages for direct usage
-    for (const page of figma.root.children) {
-      await scanNodes(page.children, usedVars);
+  for (const prop of STYLE_ID_PROPERTIES) {
+    const styleId = (node as any)[prop];
+    if (typeof styleId === 'string' && styleId) {
+      found.push({ styleId, path: prop });
     }
+  }
 
-    // Check text styles and their variants
-    const textStyles = figma.getLocalTextStyles();
-    textStyles.forEach(style => {
-      if (style.boundVariables) {
-        Object.values(style.boundVariables).forEach(binding => {
-          const bindings = Array.isArray(binding) ? binding : [binding];
-          bindings.forEach(b => {
-            if (b?.type === 'VARIABLE_ALIAS' && b.id) {
-              usedVars.add(b.id);
-            }
-          });
-        });
+  const hasMixedStyles = node.type === 'TEXT' &&
+    (typeof node.textStyleId !== 'string' || typeof node.fillStyleId !== 'string');
+  if (hasMixedStyles && typeof node.getStyledTextSegments === 'function') {
+    node.getStyledTextSegments(['textStyleId', 'fillStyleId']).forEach(segment => {
+      const path = getTextRangePath(segment);
+      if (typeof node.textStyleId !== 'string' && segment.textStyleId) {
+        found.push({ styleId: segment.textStyleId, path: `${path}.textStyleId` });
+      }
+      if (typeof node.fillStyleId !== 'string' && segment.fillStyleId) {
+        found.push({ styleId: segment.fillStyleId, path: `${path}.fillStyleId` });
       }
     });
-
-    // Filter unused variables
-    const allVariables = figma.variables.getLocalVariables();
-    return allVariables.filter(v => !usedVars.has(v.id));
-  } catch (error) {
-    console.error('❌ Error finding unused variables:', error);
-    return [];
   }
+  return found;
 }
 
-// Constants
-const UI_CONFIG = {
-  width: 512,
-  height: 600,
-  defaultFontFamily: "Inter",
-  defaultFontStyle: "Regular",
-  fontSize: 14
-} as const;
+/**
+ * Lists the variable bindings declared directly on a node
+ */
+function getNodeAliases(node: SceneNode): AliasLocation[] {
+  const found: AliasLocation[] = [];
+  const boundVariables = ('boundVariables' in node && node.boundVariables) || {};
 
-const BATCH_CONFIG: BatchConfig = {
-  size: 1000,
-  delay: 0,
-  parallel: true,
-  maxParallelBatches: 4
-} as const;
+  // Text nodes are read range by range, which already covers their fills and
+  // typography, so the node-level summaries of those are skipped
+  const handledKeys: string[] = [...BINDABLE_NODE_FIELDS, ...BINDABLE_ARRAY_PROPERTIES];
+  const readsTextRanges = node.type === 'TEXT' && typeof node.getStyledTextSegments === 'function';
+  if (readsTextRanges) {
+    found.push(...getTextRangeAliases(node as TextNode));
+    handledKeys.push(...BINDABLE_TEXT_FIELDS, 'textRangeFills');
+  }
 
-// Global state
-let uiState: UIState = {
-  analysisDone: false,
-  canPrint: false,
-  isLoading: false,
-  selectedVariables: new Set<string>(),
-  deletionSuccess: false
-};
+  for (const field of BINDABLE_NODE_FIELDS) {
+    collectVariableAliases((boundVariables as any)[field], `boundVariables.${field}`, found);
+  }
 
-// Show UI with specific dimensions
-figma.showUI(__html__, { 
-  width: UI_CONFIG.width,
-  height: UI_CONFIG.height,
-  themeColors: true
-});
+  // Paints, effects and grids: prefer the per-item bindings, which name the
+  // bound field, and fall back to the node-level list
+  for (const prop of BINDABLE_ARRAY_PROPERTIES) {
+    if (readsTextRanges && prop === 'fills') continue;
+    const itemAliases = collectItemAliases((node as any)[prop], prop);
+    if (itemAliases.length > 0) {
+      found.push(...itemAliases);
+    } else {
+      collectVariableAliases((boundVariables as any)[prop], `boundVariables.${prop}`, found);
+    }
+  }
 
-console.log('🚀 Plugin started');
+  // Anything else Figma adds to boundVariables (text fields, component properties...)
+  Object.entries(boundVariables).forEach(([key, value]) => {
+    if (!handledKeys.includes(key)) {
+      collectVariableAliases(value, `boundVariables.${key}`, found);
+    }
+  });
+
+  if (node.type === 'INSTANCE') {
+    try {
+      Object.entries(node.componentProperties || {}).forEach(([name, prop]) => {
+        if (prop.boundVariables) {
+          collectVariableAliases(prop.boundVariables, `componentProperties.${name}.boundVariables`, found);
+        }
+      });
+    } catch (error) {
+      console.warn(`⚠️ Error reading component properties of ${node.name}: ${error}`);
+    }
+  }
 
-// Add after existing interfaces
+  return found;
+}
 
-// Add after constants declaration
+/**
+ * Collects the variables read by a prototype value, walking expression trees
+ */
+function collectVariableDataAliases(data: VariableData | undefined, path: string, found: AliasLocation[]): void {
+  const value = data?.value;
+  if (isVariableAlias(value)) {
+    found.push({ id: value.id, path });
+  } else if (value && typeof value === 'object' && 'expressionArguments' in value) {
+    value.expressionArguments.forEach((argument, i) => {
+      collectVariableDataAliases(argument, `${path}.expressionArguments[${i}]`, found);
+    });
+  }
+}
 
-// Function to send status updates to the UI
-function updateStatus(stats: Partial<StatusUpdate>) {
-  statusStats = {
-    ...statusStats,
-    ...stats
-  };
-  
-  figma.ui.postMessage({
-    type: 'status-update',
-    stats: statusStats
+/**
+ * Walks prototype actions, including the nested actions of conditional blocks
+ */
+function scanActions(actions: ReadonlyArray<Action>, path: string, scan: ReactionScan): void {
+  actions.forEach((action, i) => {
+    const actionPath = `${path}[${i}]`;
+    switch (action.type) {
+      case 'SET_VARIABLE':
+        if (action.variableId) {
+          scan.aliases.push({ id: action.variableId, path: `${actionPath}.variableId` });
+        }
+        collectVariableDataAliases(action.variableValue, `${actionPath}.variableValue`, scan.aliases);
+        break;
+      case 'SET_VARIABLE_MODE':
+        if (action.variableCollectionId && action.variableModeId) {
+          scan.modeSwitches.push({
+            collectionId: action.variableCollectionId,
+            modeId: action.variableModeId,
+            path: actionPath
+          });
+        }
+        break;
+      case 'CONDITIONAL':
+        action.conditionalBlocks.forEach((block, j) => {
+          const blockPath = `${actionPath}.conditionalBlocks[${j}]`;
+          collectVariableDataAliases(block.condition, `${blockPath}.condition`, scan.aliases);
+          scanActions(block.actions || [], `${blockPath}.actions`, scan);
+        });
+        break;
+    }
   });
 }
 
-// Add after figma.showUI
+/**
+ * Lists the variables and modes referenced by the prototype reactions of a node
+ */
+function scanReactions(node: SceneNode): ReactionScan {
+  const scan: ReactionScan = { aliases: [], modeSwitches: [] };
+  if (!('reactions' in node) || !Array.isArray(node.reactions)) return scan;
 
-// Configure event listeners
-figma.on('selectionchange', () => {
-  const selection = figma.currentPage.selection;
-  updateStatus({
-    analyzed: selection.length
+  node.reactions.forEach((reaction, i) => {
+    const actions = reaction.actions || (reaction.action ? [reaction.action] : []);
+    scanActions(actions, `reactions[${i}].actions`, scan);
   });
-});
+  return scan;
+}
+
+/**
+ * Lists the variable bindings declared on a style
+ */
+function getStyleAliases(style: BaseStyle): AliasLocation[] {
+  const found: AliasLocation[] = [];
+  const styleAny = style as any;
+  const boundVariables = styleAny.boundVariables || {};
+  const itemProperties = ['paints', 'effects', 'layoutGrids'];
+
+  // Same rule as nodes: per-item bindings first, style-level list as fallback
+  for (const prop of itemProperties) {
+    const itemAliases = collectItemAliases(styleAny[prop], prop);
+    if (itemAliases.length > 0) {
+      found.push(...itemAliases);
+    } else {
+      collectVariableAliases(boundVariables[prop], `boundVariables.${prop}`, found);
+    }
+  }
 
-figma.on('variableschanged', () => {
-  const variables = figma.variables.getLocalVariables();
-  updateStatus({
-    total: variables.length
+  Object.entries(boundVariables).forEach(([key, value]) => {
+    if (!itemProperties.includes(key)) {
+      collectVariableAliases(value, `boundVariables.${key}`, found);
+    }
   });
-});
+
+  return found;
+}
 
 /**
- * Retrieves all variable collections from the current Figma file
- * @returns Array of collection info objects
+ * Stores a usage and propagates it down the alias chain of the variable, so
+ * only variables reachable from a real binding end up with usages
  */
-async function getAllCollections(): Promise<CollectionInfo[]> {
-  try {
-    console.log('📚 Getting collections...');
-    const collections = figma.variables.getLocalVariableCollections();
-    console.log('📚 Collections found:', collections);
-    
-    if (!collections || collections.length === 0) {
-      console.log('⚠️ No collections found');
-      return [];
-    }
+function recordVariableUsage(
+  index: VariableUsageIndex,
+  record: VariableUsageRecord,
+  visited: Set<string> = new Set()
+): void {
+  if (visited.has(record.variableId)) return;
+  visited.add(record.variableId);
 
-    const mappedCollections = collections.map(collection => ({
-      id: collection.id,
-      name: collection.name
-    }));
-    
-    console.log('📚 Mapped collections:', mappedCollections);
-    return mappedCollections;
-  } catch (error) {
-    console.error('❌ Error retrieving collections:', error);
-    return [];
-  }
+  const records = index.usages.get(record.variableId) || [];
+  records.push(record);
+  index.usages.set(record.variableId, records);
+
+  index.aliasTargets.get(record.variableId)?.forEach(targetId => {
+    recordVariableUsage(index, {
+      ...record,
+      variableId: targetId,
+      kind: 'alias',
+      via: record.variableId
+    }, visited);
+  });
 }
 
 /**
- * Retrieves all variables from the selected collections in the current Figma file
- * @param selectedCollections Array of selected collection IDs
+ * Adds an alias edge to the dependency graph of the index
  */
-async function getAllVariables(selectedCollections?: string[]): Promise<VariableInfo[]> {
-  try {
-    const rawVariables = figma.variables.getLocalVariables();
-    console.log(`📊 Total variables: ${rawVariables.length}`);
-    
-    return rawVariables
-      .filter(v => !selectedCollections?.length || selectedCollections.includes(v.variableCollectionId))
-      .map(v => {
-        try {
-          const collection = figma.variables.getVariableCollectionById(v.variableCollectionId);
-          return {
-            id: v?.id || '[invalid-id]',
-            name: typeof v.name === 'string' ? v.name : '[unnamed]',
-            collection: collection?.name || '[unknown-collection]',
-            variableCollectionId: v.variableCollectionId,  // Added this field
-            scopes: v.scopes || [],
-            usages: [],
-            collectionName: collection?.name || '[unknown-collection]',
-            modes: {}
-          };
-        } catch (error) {
-          console.error(`❌ Error processing variable ${v?.name || 'unknown'}:`, error);
-          return null;
-        }
-      }).filter(Boolean) as VariableInfo[];
-    
-  } catch (error) {
-    const errorMsg = `Failed to get variables: ${error instanceof Error ? error.message : 'Unknown error'}`;
-    console.error('🔥 Critical error in getAllVariables:', error);
-    throw new Error(errorMsg);
-  }
+function addAliasEdge(index: VariableUsageIndex, fromId: string, toId: string): void {
+  const targets = index.aliasTargets.get(fromId) || new Set<string>();
+  targets.add(toId);
+  index.aliasTargets.set(fromId, targets);
+
+  const referrers = index.aliasReferrers.get(toId) || new Set<string>();
+  referrers.add(fromId);
+  index.aliasReferrers.set(toId, referrers);
 }
 
 /**
- * Checks if a node has any variable bindings matching the given ID
+ * Records every variable usage of a single node
  */
-function checkNodeBindings(node: SceneNode, variableId: string): boolean {
-  try {
-    if (!('boundVariables' in node) || !node.boundVariables) return false;
+function indexNode(
+  index: VariableUsageIndex,
+  node: SceneNode,
+  page: PageNode,
+  styles: Map<string, BaseStyle | null>
+): void {
+  const base = {
+    nodeId: node.id,
+    nodeName: node.name,
+    nodeType: node.type,
+    pageId: page.id,
+    pageName: page.name
+  };
 
-    const boundVars = node.boundVariables as Record<string, VariableBinding | VariableBinding[]>;
-    
-    return Object.keys(boundVars).some((property: string) => {
-      const binding = boundVars[property];
-      if (!binding) return false;
+  try {
+    getNodeAliases(node).forEach(({ id, path }) => {
+      recordVariableUsage(index, { ...base, variableId: id, property: path, kind: 'direct' });
+    });
 
-      const bindings = Array.isArray(binding) ? binding : [binding];
-      return bindings.some(b => b?.id === variableId);
+    const reactions = scanReactions(node);
+    reactions.aliases.forEach(({ id, path }) => {
+      recordVariableUsage(index, { ...base, variableId: id, property: path, kind: 'prototype' });
+    });
+    reactions.modeSwitches.forEach(({ collectionId, modeId }) => {
+      const modes = index.prototypeModes.get(collectionId) || new Set<string>();
+      modes.add(modeId);
+      index.prototypeModes.set(collectionId, modes);
     });
+    Object.entries(node.explicitVariableModes || {}).forEach(([collectionId, modeId]) => {
+      const modes = index.explicitModes.get(collectionId) || new Set<string>();
+      modes.add(modeId);
+      index.explicitModes.set(collectionId, modes);
+    });
+
+    for (const { styleId, path: stylePath } of getNodeStyleReferences(node)) {
+      const styleRecords = index.styleUsages.get(styleId) || [];
+      styleRecords.push({
+        styleId,
+        nodeId: node.id,
+        nodeName: node.name,
+        pageId: page.id,
+        pageName: page.name,
+        property: stylePath
+      });
+      index.styleUsages.set(styleId, styleRecords);
+
+      if (!styles.has(styleId)) {
+        styles.set(styleId, figma.getStyleById(styleId));
+      }
+      const style = styles.get(styleId);
+      if (!style) continue;
+
+      getStyleAliases(style).forEach(({ id, path }) => {
+        recordVariableUsage(index, {
+          ...base,
+          variableId: id,
+          property: `${stylePath}.${path}`,
+          kind: 'style',
+          via: style.id
+        });
+      });
+    }
   } catch (error) {
-    console.error(`❌ Error checking bindings for node ${node.name}:`, error);
-    return false;
+    console.warn(`⚠️ Error indexing variable usage for node ${node.name}: ${error}`);
   }
 }
 
 /**
- * Processes a batch of nodes to check for variable usage
- * @param nodes Array of nodes to process
- * @param stats Processing statistics for logging
- * @returns Set of used variable IDs
+ * Lists the layers a scan scope starts from, grouped by page. Only top-level
+ * layers are read here; walkScanScope visits what is below them
  */
-async function processBatch(nodes: SceneNode[], stats: ProcessingStats): Promise<Set<string>> {
-  const usedIds = new Set<string>();
-  
-  for (const node of nodes) {
-    stats.nodesProcessed++;
-    
-    try {
-      // Check for bound variables
-      if ('boundVariables' in node && node.boundVariables) {
-        const boundVars = node.boundVariables as Record<string, VariableBinding | VariableBinding[]>;
-        
-        for (const [property, binding] of Object.entries(boundVars)) {
-          try {
-            if (!binding) continue;
-            
-            const bindings = Array.isArray(binding) ? binding : [binding];
-            for (const b of bindings) {
-              if (b && typeof b === 'object' && 'type' in b) {
-                // Check for valid variable binding
-                if (b.type === 'VARIABLE_ALIAS' && typeof b.id === 'string') {
-                  // Verify the variable exists
-                  const variable = figma.variables.getVariableById(b.id);
-                  if (variable) {
-                    usedIds.add(b.id);
-                    stats.variablesFound++;
-                    
-                    // Debug logging
-                    console.log(`🔗 Found variable usage:
-                      Node: ${node.name}
-                      Property: ${property}
-                      Variable: ${variable.name}
-                      ID: ${b.id}
-                    `);
-                  }
-                }
-              }
-            }
-          } catch (bindingError) {
-            console.warn(`⚠️ Error processing binding for property ${property} on node ${node.name}:`, bindingError);
-          }
+function resolveScanScope(scope: ScanScope): ScopedRoots[] {
+  switch (scope.type) {
+    case 'current-page':
+      return [{ page: figma.currentPage, roots: figma.currentPage.children }];
+    case 'pages':
+      return figma.root.children
+        .filter(page => scope.pageIds.includes(page.id))
+        .map(page => ({ page, roots: page.children }));
+    case 'selection': {
+      // A layer nested in another selected layer is walked with its ancestor,
+      // so every layer is visited once
+      const selection = figma.currentPage.selection;
+      const selectedIds = new Set(selection.map(node => node.id));
+      const roots = selection.filter(node => {
+        for (let parent = node.parent; parent; parent = parent.parent) {
+          if (selectedIds.has(parent.id)) return false;
         }
-      }
+        return true;
+      });
+      return [{ page: figma.currentPage, roots }];
+    }
+    default:
+      return figma.root.children.map(page => ({ page, roots: page.children }));
+  }
+}
 
-      // Check for style references
-      if ('styles' in node) {
-        const styles = (node as any).styles;
-        if (styles && typeof styles === 'object') {
-          for (const [styleKey, styleValue] of Object.entries(styles)) {
-            try {
-              const style = figma.getStyleById(styleValue as string);
-              if (style?.boundVariables) {
-                Object.values(style.boundVariables).forEach(binding => {
-                  const bindings = Array.isArray(binding) ? binding : [binding];
-                  bindings.forEach(b => {
-                    if (b?.type === 'VARIABLE_ALIAS' && typeof b.id === 'string') {
-                      usedIds.add(b.id);
-                      stats.variablesFound++;
-                    }
-                  });
-                });
-              }
-            } catch (styleError) {
-              console.warn(`⚠️ Error processing style ${styleKey}:`, styleError);
-            }
+/**
+ * Visits every layer of a scope depth-first, one at a time, so callers can
+ * pause between layers. rootDone is set on the last layer of each top-level
+ * layer's subtree
+ */
+function* walkScanScope(scopedRoots: ScopedRoots[]): Generator<{ page: PageNode; node: SceneNode; rootDone: boolean }> {
+  for (const { page, roots } of scopedRoots) {
+    for (const root of roots) {
+      const pending: SceneNode[] = [root];
+      while (pending.length) {
+        const node = pending.pop()!;
+        if ('children' in node) {
+          for (let i = node.children.length - 1; i >= 0; i--) {
+            pending.push(node.children[i]);
           }
         }
+        yield { page, node, rootDone: !pending.length };
       }
-    } catch (error) {
-      console.error(`❌ Failed to process node ${node.name}:`, error);
-      continue;
     }
   }
-  
-  return usedIds;
 }
 
 /**
- * Finds unused variables with cache support and filters
+ * Describes a scan scope for the results header
  */
-async function findUnusedVariables(options: FilterOptions = {
-  types: new Set(),
-  collections: new Set(),
-  modes: new Set()
-}): Promise<VariableResult[]> {
-  console.log('🔍 Starting search for unused variables...');
-  
-  try {
-    // Clear expired cache
-    cleanExpiredCache();
-    
-    // Get all variables
-    const allVariables = figma.variables.getLocalVariables();
-    console.log(`📊 Total variables: ${allVariables.length}`);
-    
-    // Apply initial filters
-    const filteredVariables = await filterVariables(allVariables, options);
-    console.log(`📊 Variables after filters: ${filteredVariables.length}`);
-    
-    // Check usage of each variable (using cache)
-    const unusedVariables: VariableResult[] = [];
-    let analyzed = 0;
-    
-    for (const variable of filteredVariables) {
-      analyzed++;
-      updateStatus({ analyzed });
-      
-      if (variable.isDeleted) {
-        console.log(`⏭️ Ignoring deleted variable: ${variable.name}`);
-        continue;
+function describeScanScope(scope: ScanScope): string {
+  switch (scope.type) {
+    case 'current-page':
+      return `Current page: ${figma.currentPage.name}`;
+    case 'pages': {
+      const names = figma.root.children
+        .filter(page => scope.pageIds.includes(page.id))
+        .map(page => page.name);
+      return `${names.length} ${names.length === 1 ? 'page' : 'pages'}: ${names.join(', ')}`;
+    }
+    case 'selection': {
+      const count = figma.currentPage.selection.length;
+      return `Selection: ${count} ${count === 1 ? 'layer' : 'layers'} on ${figma.currentPage.name}`;
+    }
+    default:
+      return 'Whole file';
+  }
+}
+
+function isSameScanScope(a: ScanScope, b: ScanScope): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Creates an index with the alias graph of all local variables and no usages yet
+ */
+function createUsageIndex(scope: ScanScope): VariableUsageIndex {
+  const index: VariableUsageIndex = {
+    usages: new Map(),
+    styleUsages: new Map(),
+    aliasTargets: new Map(),
+    aliasReferrers: new Map(),
+    prototypeModes: new Map(),
+    explicitModes: new Map(),
+    scope,
+    nodesProcessed: 0,
+    builtAt: Date.now(),
+    complete: true
+  };
+
+  // Alias dependency graph, across all modes and collections
+  figma.variables.getLocalVariables().forEach(variable => {
+    Object.values(variable.valuesByMode || {}).forEach(value => {
+      if (isVariableAlias(value) && value.id !== variable.id) {
+        addAliasEdge(index, variable.id, value.id);
       }
-      
-      // Check in cache
-      const status = await getCachedVariableStatus(variable);
-      
-      if (!status.isUsed) {
-        const collection = figma.variables.getVariableCollectionById(variable.variableCollectionId);
-        unusedVariables.push({
-          name: variable.name,
-          collection: collection?.name || '[unknown-collection]',
-          id: variable.id
-        });
-        
-        console.log(`🎯 Unused variable found: ${variable.name} (${variable.id})`);
-        console.log(`   Type: ${status.resolvedType}`);
-        if (status.usageLocations.length > 0) {
-          console.log('   Last usage locations:', status.usageLocations);
-        }
+    });
+  });
+
+  return index;
+}
+
+/**
+ * Walks the document once and records every usage of every variable
+ * @param scope Part of the file to walk, defaults to the whole document
+ * @param background Token of a scan the caller cancels itself; such scans
+ * post no progress and are not stopped by cancel-analysis
+ */
+async function buildVariableUsageIndex(
+  scope: ScanScope = DOCUMENT_SCOPE,
+  background?: ScanToken
+): Promise<VariableUsageIndex> {
+  console.log(`🔍 Building variable usage index (${describeScanScope(scope)})...`);
+
+  const index = createUsageIndex(scope);
+
+  // Nodes are collected and indexed in batches of BATCH_CONFIG.size, yielding
+  // to the editor between batches so large files stay responsive and
+  // cancelable from the start. The node count is unknown until the walk
+  // ends, so progress is measured in top-level layers
+  const scopedRoots = resolveScanScope(scope);
+  const totalRoots = scopedRoots.reduce((sum, { roots }) => sum + roots.length, 0);
+  const stats: ProcessingStats = { startTime: Date.now(), nodesProcessed: 0, variablesFound: 0 };
+  const scan: ScanToken = background || { cancelled: false };
+  const styles = new Map<string, BaseStyle | null>();
+  let rootsWalked = 0;
+
+  if (!background) activeScans.add(scan);
+  try {
+    for (const { page, node, rootDone } of walkScanScope(scopedRoots)) {
+      indexNode(index, node, page, styles);
+      stats.nodesProcessed++;
+      if (rootDone) rootsWalked++;
+      if (stats.nodesProcessed % BATCH_CONFIG.size === 0) {
+        stats.variablesFound = index.usages.size;
+        if (!background) postProgress(stats, stats.nodesProcessed / BATCH_CONFIG.size, rootsWalked, totalRoots);
+        await yieldToEditor();
+        if (scan.cancelled) break;
       }
     }
-    
-    // Update statistics
-    updateStatus({
-      total: allVariables.length,
-      analyzed,
-      unused: unusedVariables.length
-    });
-    
-    return unusedVariables;
-    
+  } finally {
+    activeScans.delete(scan);
+  }
+
+  index.nodesProcessed = stats.nodesProcessed;
+  index.complete = !scan.cancelled;
+  stats.variablesFound = index.usages.size;
+  if (!background) postProgress(stats, Math.max(1, Math.ceil(stats.nodesProcessed / BATCH_CONFIG.size)), rootsWalked, totalRoots);
+
+  console.log(index.complete
+    ? `✅ Usage index built: ${index.nodesProcessed} nodes, ${index.usages.size} variables in use`
+    : `⏹️ Scan cancelled after ${index.nodesProcessed} nodes, ${rootsWalked} of ${totalRoots} top-level layers`);
+  return index;
+}
+
+/** A running index build, flagged by cancel-analysis and checked between batches */
+interface ScanToken {
+  cancelled: boolean;
+}
+
+const activeScans = new Set<ScanToken>();
+
+function cancelActiveScans(): void {
+  activeScans.forEach(scan => { scan.cancelled = true; });
+}
+
+function yieldToEditor(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, BATCH_CONFIG.delay));
+}
+
+function postProgress(stats: ProcessingStats, currentBatch: number, rootsWalked: number, totalRoots: number): void {
+  postToUI({
+    type: 'progress',
+    progress: {
+      currentBatch,
+      rootsWalked,
+      totalRoots,
+      nodesProcessed: stats.nodesProcessed,
+      variablesFound: stats.variablesFound,
+      timeElapsed: Date.now() - stats.startTime
+    }
+  });
+}
+
+/**
+ * Returns the current usage index, building it when missing, when it covers
+ * another scope or when a rebuild is requested
+ */
+async function getVariableUsageIndex(rebuild = false, scope: ScanScope = DOCUMENT_SCOPE): Promise<VariableUsageIndex> {
+  if (!usageIndex || rebuild || !isSameScanScope(usageIndex.scope, scope)) {
+    const version = documentVersion;
+    const index = await buildVariableUsageIndex(scope);
+    // A cancelled scan is only good for the analysis that asked for it, and
+    // a scan the document changed under is out of date as soon as it ends
+    const current = index.complete && version === documentVersion;
+    usageIndex = current ? index : null;
+    if (current && scope.type === 'document') {
+      await saveUsageCache(index);
+    }
+    return index;
+  }
+  return usageIndex;
+}
+
+// Persistent usage cache: how many nodes use each variable and style, saved
+// per file in clientStorage so reopening the plugin shows results at once.
+// Node and style edits made while the plugin runs invalidate it through
+// documentchange. The fingerprint checked on load only covers variables,
+// their aliases, styles and pages, so a layer bound or unbound while the
+// plugin was closed goes unnoticed and cached results can be stale. Deleting
+// variables or styles therefore always checks against a fresh scan and keeps
+// whatever turns out to be bound
+
+interface UsageCache {
+  fingerprint: string;
+  builtAt: number;
+  nodesProcessed: number;
+  // Nodes using each used variable, directly or through styles and aliases
+  variables: { [variableId: string]: number };
+  // Nodes using each used style
+  styles: { [styleId: string]: number };
+}
+
+/** What "Clear cache" removed */
+interface ClearCacheResult {
+  storedVariables: number;
+  storedStyles: number;
+  // When the cleared cache was built, null when nothing was stored
+  builtAt: number | null;
+  inMemoryIndex: boolean;
+}
+
+// Node properties that never change which variables or styles a node uses
+const CACHE_NEUTRAL_PROPERTIES: NodeChangeProperty[] = [
+  'name', 'pluginData', 'x', 'y', 'relativeTransform', 'rotation', 'locked', 'expanded',
+  'constraints', 'exportSettings', 'guides', 'autoRename', 'authorName', 'authorVisible', 'flowStartingPoints'
+];
+
+const CACHE_NEUTRAL_STYLE_PROPERTIES: StyleChangeProperty[] = ['name', 'pluginData', 'description', 'documentationLinks'];
+
+// Bumped on every change that invalidates usage, see getVariableUsageIndex
+let documentVersion = 0;
+// False once the stored cache is known to be gone, to skip repeated deletes
+let usageCacheStored = true;
+
+function getUsageCacheKey(): string {
+  let documentId = figma.fileKey || figma.root.getPluginData('document-id');
+  if (!documentId) {
+    documentId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+    figma.root.setPluginData('document-id', documentId);
+  }
+  return `usage-cache:${documentId}`;
+}
+
+/**
+ * Hash of the variables with their aliases, the local styles and the pages;
+ * a stored cache is only trusted while it still matches
+ */
+function getUsageFingerprint(): string {
+  const styles: BaseStyle[] = [
+    ...figma.getLocalPaintStyles(),
+    ...figma.getLocalTextStyles(),
+    ...figma.getLocalEffectStyles(),
+    ...figma.getLocalGridStyles()
+  ];
+  const parts = [
+    ...figma.variables.getLocalVariables().map(variable =>
+      `${variable.id}>${Object.values(variable.valuesByMode || {}).filter(isVariableAlias).map(alias => alias.id).join(',')}`
+    ),
+    ...styles.map(style => style.id),
+    ...figma.root.children.map(page => page.id)
+  ];
+
+  let hash = 5381;
+  const text = parts.join('|');
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return `${parts.length}:${(hash >>> 0).toString(36)}`;
+}
+
+async function saveUsageCache(index: VariableUsageIndex): Promise<void> {
+  const cache: UsageCache = {
+    fingerprint: getUsageFingerprint(),
+    builtAt: index.builtAt,
+    nodesProcessed: index.nodesProcessed,
+    variables: Array.from(index.usages.entries()).reduce((counts, [variableId, records]) => {
+      counts[variableId] = groupUsagesByNode(records).length;
+      return counts;
+    }, {} as UsageCache['variables']),
+    styles: Array.from(index.styleUsages.entries()).reduce((counts, [styleId, records]) => {
+      counts[styleId] = new Set(records.map(record => record.nodeId)).size;
+      return counts;
+    }, {} as UsageCache['styles'])
+  };
+
+  try {
+    await figma.clientStorage.setAsync(getUsageCacheKey(), cache);
+    usageCacheStored = true;
+    console.log(`💾 Usage cache saved: ${Object.keys(cache.variables).length} variables in use`);
   } catch (error) {
-    console.error('❌ Error fetching variables:', error);
-    throw new Error(`Search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    console.warn('⚠️ Could not save usage cache:', error);
   }
 }
 
 /**
- * Creates a text node with the analysis results and shows a success toast
+ * Reads the usage cache of this file, dropping it when the fingerprint no
+ * longer matches
  */
-async function createTextNode(unusedVars: VariableResult[]): Promise<TextNode | null> {
+async function loadUsageCache(): Promise<UsageCache | null> {
   try {
-    const text = figma.createText();
-    await figma.loadFontAsync({ family: "Inter", style: "Regular" });
+    const cache: UsageCache | undefined = await figma.clientStorage.getAsync(getUsageCacheKey());
+    if (!cache) return null;
+    if (cache.fingerprint !== getUsageFingerprint()) {
+      console.log('♻️ Usage cache is out of date');
+      await figma.clientStorage.deleteAsync(getUsageCacheKey());
+      return null;
+    }
+    return cache;
+  } catch (error) {
+    console.warn('⚠️ Could not read usage cache:', error);
+    return null;
+  }
+}
 
-    if (unusedVars.length === 0) {
-      text.characters = "✅ No unused variables found!";
-      figma.notify("✅ No unused variables found!");
-    } else {
-      const byCollection: { [key: string]: VariableResult[] } = {};
-      unusedVars.forEach(v => {
-        if (!byCollection[v.collection]) byCollection[v.collection] = [];
-        byCollection[v.collection].push(v);
-      });
+function affectsUsage(change: DocumentChange): boolean {
+  switch (change.type) {
+    case 'PROPERTY_CHANGE':
+      return change.properties.some(property => !CACHE_NEUTRAL_PROPERTIES.includes(property));
+    case 'STYLE_PROPERTY_CHANGE':
+      return change.properties.some(property => !CACHE_NEUTRAL_STYLE_PROPERTIES.includes(property));
+    default:
+      return true;
+  }
+}
 
-      let content = "📊 Unused Variables Report\n";
-      content += "───────────────────────\n\n";
-      content += `Total unused variables: ${unusedVars.length}\n\n`;
+function invalidateUsageCache(): void {
+  documentVersion++;
+  usageIndex = null;
+  if (!usageCacheStored) return;
+  usageCacheStored = false;
+  figma.clientStorage.deleteAsync(getUsageCacheKey()).catch(error => {
+    console.warn('⚠️ Could not delete usage cache:', error);
+  });
+}
 
-      Object.entries(byCollection).forEach(([collection, vars]) => {
-        content += `${collection} (${vars.length})\n`;
-        content += `${vars.map(v => `  • ${v.name}`).join('\n')}\n\n`;
-      });
+async function clearUsageCache(): Promise<ClearCacheResult> {
+  const key = getUsageCacheKey();
+  const stored: UsageCache | undefined = await figma.clientStorage.getAsync(key);
+  await figma.clientStorage.deleteAsync(key);
+  const result: ClearCacheResult = {
+    storedVariables: stored ? Object.keys(stored.variables).length : 0,
+    storedStyles: stored ? Object.keys(stored.styles).length : 0,
+    builtAt: stored ? stored.builtAt : null,
+    inMemoryIndex: usageIndex !== null
+  };
+  usageIndex = null;
+  usageCacheStored = false;
+  return result;
+}
+
+function describeClearedCache(result: ClearCacheResult): string {
+  const cleared: string[] = [];
+  if (result.builtAt !== null) {
+    cleared.push(`saved usage of ${result.storedVariables} variables and ${result.storedStyles} styles from ${new Date(result.builtAt).toLocaleString()}`);
+  }
+  if (result.inMemoryIndex) {
+    cleared.push('the usage index of this session');
+  }
+  return cleared.length ? `Cleared ${cleared.join(' and ')}` : 'Nothing was cached';
+}
+
+function getVariableUsages(index: VariableUsageIndex, variableId: string): VariableUsageRecord[] {
+  return index.usages.get(variableId) || [];
+}
 
-      text.characters = content;
-      figma.notify(`✅ Report created with ${unusedVars.length} unused variables`);
+/**
+ * Groups usage records by node, merging the properties and kinds of each node
+ */
+function groupUsagesByNode(records: VariableUsageRecord[]): VariableUsageMap[] {
+  const byNode = new Map<string, VariableUsageMap>();
+  records.forEach(record => {
+    const usage: VariableUsageMap = byNode.get(record.nodeId) || {
+      nodeId: record.nodeId,
+      nodeName: record.nodeName,
+      nodeType: record.nodeType,
+      pageId: record.pageId,
+      pageName: record.pageName,
+      properties: [],
+      kinds: []
+    };
+    if (!usage.properties.includes(record.property)) {
+      usage.properties.push(record.property);
     }
+    if (!usage.kinds.includes(record.kind)) {
+      usage.kinds.push(record.kind);
+    }
+    byNode.set(record.nodeId, usage);
+  });
+  return Array.from(byNode.values());
+}
+
+/**
+ * Groups the node usages of a variable by page, in document page order
+ */
+function groupUsagesByPage(usages: VariableUsageMap[]): PageUsages[] {
+  const byPage = new Map<string, PageUsages>();
+  usages.forEach(usage => {
+    const group = byPage.get(usage.pageId) || { pageId: usage.pageId, pageName: usage.pageName, usages: [] };
+    group.usages.push(usage);
+    byPage.set(usage.pageId, group);
+  });
+  return Array.from(byPage.values());
+}
 
-    const viewport = figma.viewport.bounds;
-    text.x = viewport.x + 50;
-    text.y = viewport.y + 50;
+/**
+ * A variable is used when a real binding reaches it, directly or through aliases.
+ * Being aliased by another unused variable does not count.
+ */
+function isVariableUsed(index: VariableUsageIndex, variableId: string): boolean {
+  return getVariableUsages(index, variableId).length > 0;
+}
 
-    return text;
-  } catch (error) {
-    console.error('❌ Error creating text node:', error);
-    figma.notify('❌ Error creating text node', { error: true });
-    return null;
+/**
+ * Orders variables so that each one comes before the variables it aliases,
+ * which is the order they can be deleted in without leaving broken aliases
+ */
+function orderByAliasDependency(variableIds: string[], aliasTargets: Map<string, Set<string>>): string[] {
+  const pending = new Set(variableIds);
+  const inDegree = new Map<string, number>();
+  variableIds.forEach(id => inDegree.set(id, 0));
+  variableIds.forEach(id => {
+    aliasTargets.get(id)?.forEach(targetId => {
+      if (pending.has(targetId)) inDegree.set(targetId, (inDegree.get(targetId) || 0) + 1);
+    });
+  });
+
+  const ordered: string[] = [];
+  let ready = variableIds.filter(id => inDegree.get(id) === 0);
+  while (ready.length > 0) {
+    const next: string[] = [];
+    ready.forEach(id => {
+      pending.delete(id);
+      ordered.push(id);
+      aliasTargets.get(id)?.forEach(targetId => {
+        if (!pending.has(targetId)) return;
+        const degree = (inDegree.get(targetId) || 0) - 1;
+        inDegree.set(targetId, degree);
+        if (degree === 0) next.push(targetId);
+      });
+    });
+    ready = next;
   }
+
+  // Alias cycles cannot be ordered, keep them at the end
+  return ordered.concat(variableIds.filter(id => pending.has(id)));
 }
 
-// Event Handlers
-figma.ui.onmessage = async (msg) => {
+/**
+ * Groups unused variables that alias each other into dead chains
+ * @param unusedIds Variables already known to be unused
+ * @returns Chains with more than one variable, each in deletion order
+ */
+function findDeadAliasChains(index: VariableUsageIndex, unusedIds: string[]): DeadAliasChain[] {
+  const unused = new Set(unusedIds);
+  const visited = new Set<string>();
+  const chains: DeadAliasChain[] = [];
+
+  for (const startId of unusedIds) {
+    if (visited.has(startId)) continue;
+
+    // Collect the connected component of unused variables around this one
+    const component: string[] = [];
+    const queue = [startId];
+    visited.add(startId);
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      component.push(id);
+      const neighbours = [
+        ...(index.aliasTargets.get(id) || []),
+        ...(index.aliasReferrers.get(id) || [])
+      ];
+      neighbours.forEach(neighbourId => {
+        if (unused.has(neighbourId) && !visited.has(neighbourId)) {
+          visited.add(neighbourId);
+          queue.push(neighbourId);
+        }
+      });
+    }
+
+    if (component.length > 1) {
+      const variableIds = orderByAliasDependency(component, index.aliasTargets);
+      chains.push({
+        id: variableIds[0],
+        variableIds,
+        names: variableIds.map(id => figma.variables.getVariableById(id)?.name || id)
+      });
+    }
+  }
+
+  return chains;
+}
+
+// Constants
+const UI_CONFIG = {
+  width: 512,
+  height: 600,
+  defaultFontFamily: "Inter",
+  defaultFontStyle: "Regular",
+  fontSize: 14
+} as const;
+
+const BATCH_CONFIG: BatchConfig = {
+  size: 1000,
+  delay: 0,
+  parallel: true,
+  maxParallelBatches: 4
+} as const;
+
+// Global state
+let uiState: UIState = {
+  analysisDone: false,
+  canPrint: false,
+  isLoading: false,
+  selectedVariables: new Set<string>(),
+  deletionSuccess: false
+};
+
+// Show UI with specific dimensions
+figma.showUI(__html__, { 
+  width: UI_CONFIG.width,
+  height: UI_CONFIG.height,
+  themeColors: true
+});
+
+console.log('🚀 Plugin started');
+
+interface StatusUpdate {
+  total: number;
+  analyzed: number;
+  unused: number;
+}
+
+let statusStats: StatusUpdate = {
+  total: 0,
+  analyzed: 0,
+  unused: 0
+};
+
+// Function to send status updates to the UI
+function updateStatus(stats: Partial<StatusUpdate>) {
+  statusStats = {
+    ...statusStats,
+    ...stats
+  };
+  
+  postToUI({
+    type: 'status-update',
+    stats: statusStats
+  });
+}
+
+/**
+ * Formats a variable value for display: hex for colors, the target name for aliases
+ */
+function formatVariableValue(value: VariableValue): string {
+  if (isVariableAlias(value)) {
+    const target = figma.variables.getVariableById(value.id);
+    return `→ ${target?.name || value.id}`;
+  }
+  if (value && typeof value === 'object' && 'r' in value) {
+    const channels = [value.r, value.g, value.b];
+    if ('a' in value && value.a < 1) channels.push(value.a);
+    return `#${channels.map(c => Math.round(c * 255).toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+  }
+  return String(value);
+}
+
+/**
+ * Lists the value of a variable in every mode of its collection
+ */
+function getModeValues(variable: Variable): ModeValue[] {
+  const collection = figma.variables.getVariableCollectionById(variable.variableCollectionId);
+  const modes = collection?.modes || Object.keys(variable.valuesByMode).map(modeId => ({ modeId, name: modeId }));
+  return modes
+    .filter(mode => mode.modeId in variable.valuesByMode)
+    .map(mode => ({
+      modeId: mode.modeId,
+      modeName: mode.name,
+      value: formatVariableValue(variable.valuesByMode[mode.modeId])
+    }));
+}
+
+/**
+ * Node field an instance override has to touch to change a recorded binding,
+ * e.g. `fills` for `fills[0].boundVariables.color`
+ */
+function getBindingField(property: string): string {
+  const path = property.replace(/^textRange\[\d+:\d+\]\./, '').replace(/^boundVariables\./, '');
+  return path.split(/[.[]/)[0];
+}
+
+/**
+ * Fields overridden on each layer inside the instances of a subtree
+ */
+function getInstanceOverrides(nodes: SceneNode[]): Map<string, string[]> {
+  const overrides = new Map<string, string[]>();
+  nodes.forEach(node => {
+    if (node.type !== 'INSTANCE') return;
+    try {
+      node.overrides.forEach(({ id, overriddenFields }) => {
+        overrides.set(id, [...(overrides.get(id) || []), ...overriddenFields]);
+      });
+    } catch (error) {
+      console.warn(`⚠️ Error reading overrides of ${node.name}: ${error}`);
+    }
+  });
+  return overrides;
+}
+
+/**
+ * Lists every variable bound in the selected subtree, directly, through
+ * styles, prototype actions or as the target of an alias
+ */
+async function getSelectionVariables(scan: ScanToken = { cancelled: false }): Promise<SelectionVariable[]> {
+  if (!figma.currentPage.selection.length) return [];
+
+  const scope: ScanScope = { type: 'selection' };
+  const index = await buildVariableUsageIndex(scope, scan);
+  const overrides = getInstanceOverrides(Array.from(walkScanScope(resolveScanScope(scope)), ({ node }) => node));
+  const result: SelectionVariable[] = [];
+
+  for (const [variableId, records] of index.usages) {
+    const variable = figma.variables.getVariableById(variableId);
+    if (!variable) continue;
+
+    const aliasedBy = new Set<string>();
+    const overridden = new Set<string>();
+    records.forEach(record => {
+      if (record.kind === 'alias' && record.via) {
+        aliasedBy.add(figma.variables.getVariableById(record.via)?.name || record.via);
+      }
+      const fields = overrides.get(record.nodeId) || [];
+      const field = getBindingField(record.property);
+      if (fields.includes(field) || (record.property.startsWith('textRange[') && fields.includes('styledTextSegments'))) {
+        overridden.add(`${record.nodeName}: ${record.property}`);
+      }
+    });
+
+    const usages = groupUsagesByNode(records);
+    result.push({
+      ...await summarizeVariable(index, variable),
+      values: getModeValues(variable),
+      properties: Array.from(new Set(records.map(record => record.property))),
+      kinds: Array.from(new Set(records.map(record => record.kind))),
+      aliasedBy: Array.from(aliasedBy),
+      overrides: Array.from(overridden),
+      nodeIds: usages.map(usage => usage.nodeId)
+    });
+  }
+
+  return result.sort((a, b) => a.collection.localeCompare(b.collection) || a.name.localeCompare(b.name));
+}
+
+// Selection scans run in the background, at most one per pause in selection
+// changes; a scan for an older selection is stopped and its result dropped
+const SELECTION_DEBOUNCE_MS = 150;
+let selectionRequestId = 0;
+let selectionTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Sends the variables of the current selection to the "Variables in selection" panel
+ */
+async function postSelectionVariables(): Promise<void> {
+  const requestId = ++selectionRequestId;
+  const scan: ScanToken = { get cancelled() { return requestId !== selectionRequestId; } };
+  try {
+    const selectionCount = figma.currentPage.selection.length;
+    const variables = await getSelectionVariables(scan);
+    if (scan.cancelled) return;
+    postToUI({ type: 'selection-variables', selectionCount, variables });
+  } catch (error) {
+    console.error('❌ Error reading selection variables:', error);
+  }
+}
+
+// Configure event listeners
+figma.on('selectionchange', () => {
+  if (selectionTimer) clearTimeout(selectionTimer);
+  selectionTimer = setTimeout(() => {
+    selectionTimer = null;
+    postSelectionVariables();
+  }, SELECTION_DEBOUNCE_MS);
+});
+
+figma.on('documentchange', event => {
+  if (event.documentChanges.some(affectsUsage)) {
+    invalidateUsageCache();
+  }
+});
+
+/**
+ * Retrieves all variable collections from the current Figma file
+ * @returns Array of collection info objects
+ */
+async function getAllCollections(): Promise<CollectionInfo[]> {
+  try {
+    console.log('📚 Getting collections...');
+    const collections = figma.variables.getLocalVariableCollections();
+    console.log('📚 Collections found:', collections);
+    
+    if (!collections || collections.length === 0) {
+      console.log('⚠️ No collections found');
+      return [];
+    }
+
+    const mappedCollections = collections.map(collection => ({
+      id: collection.id,
+      name: collection.name
+    }));
+    
+    console.log('📚 Mapped collections:', mappedCollections);
+    return mappedCollections;
+  } catch (error) {
+    console.error('❌ Error retrieving collections:', error);
+    return [];
+  }
+}
+
+/**
+ * Retrieves all variables from the selected collections in the current Figma file
+ * @param selectedCollections Array of selected collection IDs
+ */
+async function getAllVariables(selectedCollections?: string[]): Promise<VariableInfo[]> {
+  try {
+    const rawVariables = figma.variables.getLocalVariables();
+    console.log(`📊 Total variables: ${rawVariables.length}`);
+    
+    return rawVariables
+      .filter(v => !selectedCollections?.length || selectedCollections.includes(v.variableCollectionId))
+      .map(v => {
+        try {
+          const collection = figma.variables.getVariableCollectionById(v.variableCollectionId);
+          return {
+            id: v?.id || '[invalid-id]',
+            name: typeof v.name === 'string' ? v.name : '[unnamed]',
+            collection: collection?.name || '[unknown-collection]',
+            variableCollectionId: v.variableCollectionId,  // Added this field
+            scopes: v.scopes || [],
+            usages: [],
+            collectionName: collection?.name || '[unknown-collection]',
+            modes: {}
+          };
+        } catch (error) {
+          console.error(`❌ Error processing variable ${v?.name || 'unknown'}:`, error);
+          return null;
+        }
+      }).filter(Boolean) as VariableInfo[];
+    
+  } catch (error) {
+    const errorMsg = `Failed to get variables: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    console.error('🔥 Critical error in getAllVariables:', error);
+    throw new Error(errorMsg);
+  }
+}
+
+/**
+ * Checks if a node has any variable bindings matching the given ID
+ */
+function checkNodeBindings(node: SceneNode, variableId: string): boolean {
+  try {
+    if (!('boundVariables' in node) || !node.boundVariables) return false;
+
+    const boundVars = node.boundVariables as Record<string, VariableBinding | VariableBinding[]>;
+    
+    return Object.keys(boundVars).some((property: string) => {
+      const binding = boundVars[property];
+      if (!binding) return false;
+
+      const bindings = Array.isArray(binding) ? binding : [binding];
+      return bindings.some(b => b?.id === variableId);
+    });
+  } catch (error) {
+    console.error(`❌ Error checking bindings for node ${node.name}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Whether a variable is published to the team library: neither it nor its
+ * collection is hidden from publishing and it has been published at least
+ * once. Files using the library may bind it even when nothing in this file
+ * does
+ */
+async function isPublishedVariable(variable: Variable): Promise<boolean> {
+  if (variable.hiddenFromPublishing) return false;
+  const collection = figma.variables.getVariableCollectionById(variable.variableCollectionId);
+  if (collection?.hiddenFromPublishing) return false;
+  return (await variable.getPublishStatusAsync()) !== 'UNPUBLISHED';
+}
+
+/**
+ * Analyzes the given collections using the shared usage index
+ * @param collectionIds Collections to analyze, all collections when empty
+ * @param scope Part of the file searched for usages
+ * @returns Unused variables and the counters shown in the UI
+ */
+async function analyzeCollections(
+  collectionIds: string[] = [],
+  scope: ScanScope = DOCUMENT_SCOPE,
+  filter: VariableFilter = EMPTY_FILTER
+): Promise<AnalysisResult> {
+  console.log('🔍 Starting search for unused variables...');
+  
+  try {
+    const matchesFilter = compileVariableFilter(filter);
+    const keepList = getKeepList();
+    const { index, cache } = await getAnalysisUsage(scope);
+    const countUsages = (variableId: string) => cache
+      ? cache.variables[variableId] || 0
+      : groupUsagesByNode(getVariableUsages(index, variableId)).length;
+    
+    // Get all variables
+    const allVariables = figma.variables.getLocalVariables();
+    console.log(`📊 Total variables: ${allVariables.length}`);
+    
+    // Publish status is only known asynchronously, so it is checked after the
+    // other filters and kept for the loop below
+    const filteredVariables: Variable[] = [];
+    const publishedIds = new Set<string>();
+    for (const variable of allVariables) {
+      if (collectionIds.length && !collectionIds.includes(variable.variableCollectionId)) continue;
+      if (!matchesFilter(variable)) continue;
+      const published = await isPublishedVariable(variable);
+      if (published && filter.excludePublished) continue;
+      if (published) publishedIds.add(variable.id);
+      filteredVariables.push(variable);
+    }
+    console.log(`📊 Variables after filters: ${filteredVariables.length}`);
+    
+    const unusedVariables: VariableResult[] = [];
+    const protectedVariables: VariableResult[] = [];
+    const publishedVariables: VariableResult[] = [];
+    const lowUsage: VariableResult[] = [];
+    
+    for (const variable of filteredVariables) {
+      const collection = figma.variables.getVariableCollectionById(variable.variableCollectionId);
+      const published = publishedIds.has(variable.id);
+
+      const protectedReason = getProtectionReason(variable, keepList);
+
+      const usageCount = countUsages(variable.id);
+      if (usageCount > 0) {
+        if (usageCount <= LOW_USAGE_LIMIT) {
+          lowUsage.push({
+            name: variable.name,
+            collection: collection?.name || '[unknown-collection]',
+            id: variable.id,
+            usageCount,
+            ...(protectedReason ? { protectedReason } : {}),
+            ...(published ? { published } : {})
+          });
+        }
+        continue;
+      }
+
+      if (protectedReason) {
+        protectedVariables.push({
+          name: variable.name,
+          collection: collection?.name || '[unknown-collection]',
+          id: variable.id,
+          protectedReason,
+          ...(published ? { published } : {})
+        });
+        continue;
+      }
+
+      if (published) {
+        publishedVariables.push({
+          name: variable.name,
+          collection: collection?.name || '[unknown-collection]',
+          id: variable.id,
+          published
+        });
+        continue;
+      }
+      
+      unusedVariables.push({
+        name: variable.name,
+        collection: collection?.name || '[unknown-collection]',
+        id: variable.id
+      });
+      
+      console.log(`🎯 Unused variable found: ${variable.name} (${variable.id})`);
+    }
+    
+    // Keep the members of each dead chain together, in deletion order
+    const chains = findDeadAliasChains(index, unusedVariables.map(v => v.id));
+    const byId = new Map(unusedVariables.map(v => [v.id, v]));
+    const emitted = new Set<string>();
+    const orderedVariables: VariableResult[] = [];
+    unusedVariables.forEach(result => {
+      if (emitted.has(result.id)) return;
+      const chain = chains.find(c => c.variableIds.includes(result.id));
+      (chain ? chain.variableIds : [result.id]).forEach(id => {
+        const member = byId.get(id)!;
+        if (chain) member.chainId = chain.id;
+        orderedVariables.push(member);
+        emitted.add(id);
+      });
+    });
+    chains.forEach(chain => console.log(`⛓️ Dead alias chain: ${chain.names.join(' → ')}`));
+    
+    // Update statistics
+    updateStatus({
+      total: allVariables.length,
+      analyzed: filteredVariables.length,
+      unused: unusedVariables.length
+    });
+    
+    return {
+      target: 'variables',
+      variables: orderedVariables,
+      chains,
+      lowUsage,
+      stats: {
+        totalVariables: allVariables.length,
+        analyzed: filteredVariables.length,
+        unused: unusedVariables.length
+      },
+      scope,
+      scopeLabel: describeScanScope(scope),
+      partial: scope.type !== 'document',
+      incomplete: !index.complete,
+      cachedAt: cache ? cache.builtAt : null,
+      filterLabel: describeVariableFilter(filter),
+      protected: protectedVariables,
+      published: publishedVariables
+    };
+    
+  } catch (error) {
+    console.error('❌ Error fetching variables:', error);
+    throw new Error(`Search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Finds local paint, text, effect and grid styles that no node references
+ * @param scope Part of the file searched for usages
+ * @returns Unused styles and the counters shown in the UI
+ */
+async function analyzeStyles(scope: ScanScope = DOCUMENT_SCOPE): Promise<AnalysisResult> {
+  console.log('🔍 Starting search for unused styles...');
+
+  try {
+    const { index, cache } = await getAnalysisUsage(scope);
+    const styles: BaseStyle[] = [
+      ...figma.getLocalPaintStyles(),
+      ...figma.getLocalTextStyles(),
+      ...figma.getLocalEffectStyles(),
+      ...figma.getLocalGridStyles()
+    ];
+
+    const unusedStyles: VariableResult[] = styles
+      .filter(style => cache ? !cache.styles[style.id] : !index.styleUsages.get(style.id)?.length)
+      .map(style => ({
+        name: style.name,
+        collection: STYLE_TYPE_LABELS[style.type],
+        id: style.id
+      }));
+    console.log(`🎯 Unused styles found: ${unusedStyles.length} of ${styles.length}`);
+
+    return {
+      target: 'styles',
+      variables: unusedStyles,
+      chains: [],
+      lowUsage: [],
+      stats: {
+        totalVariables: styles.length,
+        analyzed: styles.length,
+        unused: unusedStyles.length
+      },
+      scope,
+      scopeLabel: describeScanScope(scope),
+      partial: scope.type !== 'document',
+      incomplete: !index.complete,
+      cachedAt: cache ? cache.builtAt : null,
+      filterLabel: '',
+      protected: [],
+      published: []
+    };
+  } catch (error) {
+    console.error('❌ Error fetching styles:', error);
+    throw new Error(`Search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+const EMPTY_FILTER: VariableFilter = {
+  types: [], scopes: [], modes: [], namePattern: '', groupPath: '', excludePublished: false
+};
+
+/**
+ * Converts a glob to an anchored, case-insensitive expression. In group
+ * paths * stays within one segment and ** spans segments
+ */
+function globToRegExp(glob: string, segmentWildcards: boolean): RegExp {
+  const source = glob
+    .split(/(\*\*|\*|\?)/)
+    .map(part => {
+      if (part === '**') return '.*';
+      if (part === '*') return segmentWildcards ? '[^/]*' : '.*';
+      if (part === '?') return segmentWildcards ? '[^/]' : '.';
+      return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Turns a filter into a predicate, validating its patterns up front
+ * @throws When the name pattern is not a valid regular expression
+ */
+function compileVariableFilter(filter: VariableFilter): (variable: Variable) => boolean {
+  let namePattern: RegExp | null = null;
+  const name = filter.namePattern.trim();
+  const regexMatch = name.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    try {
+      namePattern = new RegExp(regexMatch[1], regexMatch[2]);
+    } catch (error) {
+      throw new Error(`Invalid name pattern ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  } else if (name) {
+    namePattern = globToRegExp(name, false);
+  }
+
+  const group = filter.groupPath.trim().replace(/^\/+|\/+$/g, '');
+  const groupPattern = group ? globToRegExp(group, true) : null;
+  const modeNames = new Set(filter.modes);
+
+  return variable => {
+    if (filter.types.length && !filter.types.includes(variable.resolvedType)) return false;
+    if (filter.scopes.length && !variable.scopes.some(scope => scope === 'ALL_SCOPES' || filter.scopes.includes(scope))) {
+      return false;
+    }
+    if (modeNames.size) {
+      const collection = figma.variables.getVariableCollectionById(variable.variableCollectionId);
+      if (!collection?.modes.some(mode => modeNames.has(mode.name))) return false;
+    }
+    if (namePattern && !namePattern.test(variable.name)) return false;
+    if (groupPattern) {
+      // The variable itself or any of its groups, so color/legacy covers subgroups
+      const segments = variable.name.split('/');
+      const paths = segments.map((_, i) => segments.slice(0, i + 1).join('/'));
+      if (!paths.some(path => groupPattern.test(path))) return false;
+    }
+    return true;
+  };
+}
+
+/**
+ * Describes the active filters for reports, empty when nothing is filtered
+ */
+function describeVariableFilter(filter: VariableFilter): string {
+  return [
+    filter.types.length ? `Types: ${filter.types.join(', ')}` : '',
+    filter.scopes.length ? `Scopes: ${filter.scopes.join(', ')}` : '',
+    filter.modes.length ? `Modes: ${filter.modes.join(', ')}` : '',
+    filter.namePattern.trim() ? `Name: ${filter.namePattern.trim()}` : '',
+    filter.groupPath.trim() ? `Group: ${filter.groupPath.trim()}` : '',
+    filter.excludePublished ? 'Unpublished only' : ''
+  ].filter(Boolean).join(' · ');
+}
+
+/**
+ * Usage for an analysis: the stored counts when the whole file is analyzed
+ * and the cache is current, otherwise a fresh scan of the scope
+ */
+async function getAnalysisUsage(scope: ScanScope): Promise<{ index: VariableUsageIndex; cache: UsageCache | null }> {
+  const cache = scope.type === 'document' ? await loadUsageCache() : null;
+  if (cache) {
+    console.log(`⚡ Using usage cache from ${new Date(cache.builtAt).toLocaleString()}`);
+    return { index: { ...createUsageIndex(scope), nodesProcessed: cache.nodesProcessed, builtAt: cache.builtAt }, cache };
+  }
+  return { index: await getVariableUsageIndex(true, scope), cache: null };
+}
+
+/**
+ * Finds unused variables using the shared usage index
+ * @param collectionIds Collections to analyze, all collections when empty
+ */
+async function findUnusedVariables(collectionIds: string[] = []): Promise<VariableResult[]> {
+  const { variables } = await analyzeCollections(collectionIds);
+  return variables;
+}
+
+// On-canvas report: one auto-layout frame, found again through plugin data
+// so that printing the report again updates it in place
+
+const REPORT_FRAME_KEY = 'unused-variables-report';
+
+function findReportFrame(): FrameNode | null {
+  for (const page of figma.root.children) {
+    const frame = page.children.find(node => node.type === 'FRAME' && node.getPluginData(REPORT_FRAME_KEY) === 'true');
+    if (frame) return frame as FrameNode;
+  }
+  return null;
+}
+
+function createAutoLayoutFrame(name: string, layoutMode: 'HORIZONTAL' | 'VERTICAL', itemSpacing: number): FrameNode {
+  const frame = figma.createFrame();
+  frame.name = name;
+  frame.layoutMode = layoutMode;
+  frame.primaryAxisSizingMode = 'AUTO';
+  frame.counterAxisSizingMode = 'AUTO';
+  frame.counterAxisAlignItems = 'CENTER';
+  frame.itemSpacing = itemSpacing;
+  frame.fills = [];
+  return frame;
+}
+
+function createReportText(characters: string, style: 'Regular' | 'Bold', fontSize: number): TextNode {
+  const text = figma.createText();
+  text.fontName = { family: 'Inter', style };
+  text.fontSize = fontSize;
+  text.characters = characters;
+  return text;
+}
+
+/**
+ * Value of a variable in one mode, with a swatch of the resolved colour
+ */
+function createValuePreview(variable: Variable | null, mode: ModeValue): FrameNode {
+  const preview = createAutoLayoutFrame(mode.modeName, 'HORIZONTAL', 4);
+  const value = variable ? resolveModeValue(variable, mode.modeId) : null;
+  if (value && typeof value === 'object' && 'r' in value) {
+    const swatch = figma.createRectangle();
+    swatch.name = 'Swatch';
+    swatch.resize(16, 16);
+    swatch.cornerRadius = 4;
+    swatch.fills = [{ type: 'SOLID', color: { r: value.r, g: value.g, b: value.b }, opacity: 'a' in value ? (value as RGBA).a : 1 }];
+    swatch.strokes = [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 }, opacity: 0.1 }];
+    preview.appendChild(swatch);
+  }
+  preview.appendChild(createReportText(`${mode.modeName}: ${mode.value}`, 'Regular', 12));
+  return preview;
+}
+
+function createReportRow(row: ReportRow): FrameNode {
+  const frame = createAutoLayoutFrame(row.name, 'HORIZONTAL', 16);
+  const variable = figma.variables.getVariableById(row.id);
+  frame.appendChild(createReportText(row.name, 'Bold', 12));
+  frame.appendChild(createReportText(row.resolvedType, 'Regular', 12));
+  row.values.forEach(mode => frame.appendChild(createValuePreview(variable, mode)));
+  frame.appendChild(createReportText(`${row.usageCount} ${row.usageCount === 1 ? 'layer' : 'layers'}`, 'Regular', 12));
+  return frame;
+}
+
+/**
+ * Draws the report frame: a header with file, date, scope, filters and totals, then
+ * one section per collection with a row per variable. An existing report
+ * frame is emptied and reused, anywhere in the file
+ */
+async function createReportFrame(rows: ReportRow[], scopeLabel: string, filterLabel = ''): Promise<FrameNode> {
+  await Promise.all([
+    figma.loadFontAsync({ family: 'Inter', style: 'Regular' }),
+    figma.loadFontAsync({ family: 'Inter', style: 'Bold' })
+  ]);
+
+  let report = findReportFrame();
+  if (report) {
+    report.children.forEach(child => child.remove());
+  } else {
+    report = createAutoLayoutFrame('Unused variables report', 'VERTICAL', 24);
+    report.setPluginData(REPORT_FRAME_KEY, 'true');
+    report.counterAxisAlignItems = 'MIN';
+    report.fills = [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }];
+    report.paddingTop = report.paddingBottom = report.paddingLeft = report.paddingRight = 32;
+    report.cornerRadius = 16;
+    report.x = figma.viewport.bounds.x + 50;
+    report.y = figma.viewport.bounds.y + 50;
+    figma.currentPage.appendChild(report);
+  }
+
+  const byCollection = new Map<string, ReportRow[]>();
+  rows.forEach(row => byCollection.set(row.collection, [...(byCollection.get(row.collection) || []), row]));
+
+  const header = createAutoLayoutFrame('Header', 'VERTICAL', 4);
+  header.counterAxisAlignItems = 'MIN';
+  header.appendChild(createReportText('📊 Unused Variables Report', 'Bold', 20));
+  header.appendChild(createReportText(`${figma.root.name} · ${new Date().toLocaleString()} · Scope: ${scopeLabel}`, 'Regular', 12));
+  if (filterLabel) {
+    header.appendChild(createReportText(`Filters: ${filterLabel}`, 'Regular', 12));
+  }
+  header.appendChild(createReportText(rows.length
+    ? `${rows.length} unused ${rows.length === 1 ? 'variable' : 'variables'} in ${byCollection.size} ${byCollection.size === 1 ? 'collection' : 'collections'}`
+    : '✅ No unused variables found!', 'Regular', 12));
+  report.appendChild(header);
+
+  byCollection.forEach((collectionRows, collection) => {
+    const section = createAutoLayoutFrame(collection, 'VERTICAL', 8);
+    section.counterAxisAlignItems = 'MIN';
+    section.appendChild(createReportText(`${collection} (${collectionRows.length})`, 'Bold', 14));
+    collectionRows.forEach(row => section.appendChild(createReportRow(row)));
+    report!.appendChild(section);
+  });
+
+  return report;
+}
+
+/**
+ * Collects the exported details of each variable, skipping deleted ones
+ */
+async function buildReportRows(index: VariableUsageIndex, variableIds: string[]): Promise<ReportRow[]> {
+  return Promise.all(variableIds
+    .map(id => figma.variables.getVariableById(id))
+    .filter((variable): variable is Variable => variable !== null)
+    .map(async variable => {
+      const summary = await summarizeVariable(index, variable);
+      return {
+        id: variable.id,
+        name: variable.name,
+        groupPath: variable.name.split('/').slice(0, -1).join('/'),
+        collection: summary.collection,
+        resolvedType: variable.resolvedType,
+        values: getModeValues(variable),
+        scopes: variable.scopes,
+        description: variable.description,
+        usageCount: summary.usageCount
+      };
+    }));
+}
+
+/**
+ * Describes the scan a report's rows come from
+ */
+function buildReportMetadata(index: VariableUsageIndex, filter: VariableFilter = EMPTY_FILTER): ReportMetadata {
+  return {
+    scope: describeScanScope(index.scope),
+    partial: index.scope.type !== 'document',
+    incomplete: !index.complete,
+    filter,
+    generatedAt: new Date().toISOString()
+  };
+}
+
+function getReportMetadataLines(metadata: ReportMetadata): string[] {
+  const status = [
+    metadata.partial ? 'partial, unused within scope' : '',
+    metadata.incomplete ? 'incomplete, scan cancelled' : ''
+  ].filter(Boolean).join('; ');
+  return [
+    `Scope: ${metadata.scope}`,
+    `Status: ${status || 'complete'}`,
+    `Filters: ${describeVariableFilter(metadata.filter) || 'none'}`,
+    `Generated: ${metadata.generatedAt}`
+  ];
+}
+
+const REPORT_COLUMNS = ['ID', 'Name', 'Group', 'Collection', 'Type', 'Values', 'Scopes', 'Description', 'Usages'];
+
+function getReportCells(row: ReportRow): string[] {
+  return [
+    row.id,
+    row.name,
+    row.groupPath,
+    row.collection,
+    row.resolvedType,
+    row.values.map(mode => `${mode.modeName}: ${mode.value}`).join('; '),
+    row.scopes.join(', '),
+    row.description,
+    String(row.usageCount)
+  ];
+}
+
+/**
+ * Serializes report rows as JSON, CSV (RFC 4180 quoting) or a Markdown table.
+ * JSON carries the metadata as top-level fields and Markdown as a header; CSV
+ * is just the header row and data rows so spreadsheets read it as a table
+ */
+function formatReport(rows: ReportRow[], format: ReportFormat, metadata: ReportMetadata): string {
+  if (format === 'json') {
+    return JSON.stringify({ ...metadata, variables: rows }, null, 2);
+  }
+
+  if (format === 'csv') {
+    const escape = (cell: string) => /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+    return [REPORT_COLUMNS, ...rows.map(getReportCells)].map(cells => cells.map(escape).join(',')).join('\r\n');
+  }
+
+  const escape = (cell: string) => cell.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  return [
+    '# Unused variables',
+    '',
+    ...getReportMetadataLines(metadata).map(line => `- ${line}`),
+    '',
+    `| ${REPORT_COLUMNS.join(' | ')} |`,
+    `|${REPORT_COLUMNS.map(() => ' --- |').join('')}`,
+    ...rows.map(row => `| ${getReportCells(row).map(escape).join(' | ')} |`)
+  ].join('\n');
+}
+
+/**
+ * Describes a variable for the usages navigator
+ */
+async function summarizeVariable(index: VariableUsageIndex, variable: Variable, keepList = getKeepList()): Promise<VariableSummary> {
+  const collection = figma.variables.getVariableCollectionById(variable.variableCollectionId);
+  const protectedReason = getProtectionReason(variable, keepList);
+  return {
+    id: variable.id,
+    name: variable.name,
+    collection: collection?.name || '[unknown-collection]',
+    resolvedType: variable.resolvedType,
+    usageCount: groupUsagesByNode(getVariableUsages(index, variable.id)).length,
+    ...(await isPublishedVariable(variable) ? { published: true } : {}),
+    ...(protectedReason ? { protectedReason } : {})
+  };
+}
+
+/**
+ * Switches to a page, selects the given nodes and zooms to them
+ * @returns Number of nodes that still exist and were selected
+ */
+function selectNodesOnPage(pageId: string, nodeIds: string[]): number {
+  const page = figma.root.children.find(p => p.id === pageId);
+  if (!page) {
+    throw new Error(`Page not found: ${pageId}`);
+  }
+
+  const nodes = nodeIds
+    .map(id => figma.getNodeById(id))
+    .filter((node): node is SceneNode => !!node && node.type !== 'PAGE' && node.type !== 'DOCUMENT');
+  if (!nodes.length) {
+    throw new Error('The selected layers no longer exist');
+  }
+
+  figma.currentPage = page;
+  page.selection = nodes;
+  figma.viewport.scrollAndZoomIntoView(nodes);
+  return nodes.length;
+}
+
+/**
+ * Lists the modes of other variables whose value is an alias to a variable
+ */
+function findAliasReferrers(localVariables: Variable[], variableId: string): AliasReferrer[] {
+  const referrers: AliasReferrer[] = [];
+  localVariables.forEach(other => {
+    Object.entries(other.valuesByMode || {}).forEach(([modeId, value]) => {
+      if (other.id !== variableId && isVariableAlias(value) && value.id === variableId) {
+        referrers.push({ variableId: other.id, modeId });
+      }
+    });
+  });
+  return referrers;
+}
+
+/**
+ * Works out what deleting a set of variables would touch, without deleting
+ * anything: aliases and style bindings left dangling, collections left
+ * empty, and selected variables that are still referenced
+ */
+async function analyzeDeletionImpact(variableIds: string[]): Promise<DeletionImpact> {
+  const index = await getVariableUsageIndex(true);
+  const selected = new Set(variableIds);
+  const localVariables = figma.variables.getLocalVariables();
+  const nameOf = (id: string) => figma.variables.getVariableById(id)?.name || id;
+  const keepList = getKeepList();
+  const impact: DeletionImpact = {
+    variableCount: variableIds.length,
+    referenced: [],
+    brokenAliases: [],
+    danglingStyleBindings: [],
+    emptyCollections: [],
+    published: []
+  };
+
+  const styles: BaseStyle[] = [
+    ...figma.getLocalPaintStyles(),
+    ...figma.getLocalTextStyles(),
+    ...figma.getLocalEffectStyles(),
+    ...figma.getLocalGridStyles()
+  ];
+  styles.forEach(style => {
+    getStyleAliases(style).forEach(({ id, path }) => {
+      if (selected.has(id)) {
+        impact.danglingStyleBindings.push({ styleName: style.name, property: path, variableId: id, variableName: nameOf(id) });
+      }
+    });
+  });
+
+  for (const id of variableIds) {
+    const variable = figma.variables.getVariableById(id);
+    if (!variable) continue;
+
+    if (await isPublishedVariable(variable)) {
+      impact.published.push(variable.name);
+    }
+
+    const reasons: string[] = [];
+    const protectedReason = getProtectionReason(variable, keepList);
+    if (protectedReason) {
+      reasons.push(`protected: ${protectedReason}`);
+    }
+    const layerCount = groupUsagesByNode(getVariableUsages(index, id)).length;
+    if (layerCount) {
+      reasons.push(`bound to ${layerCount} ${layerCount === 1 ? 'layer' : 'layers'}`);
+    }
+
+    // Aliases from variables that are deleted too go away with them
+    const survivors = findAliasReferrers(localVariables, id).filter(r => !selected.has(r.variableId));
+    survivors.forEach(({ variableId, modeId }) => {
+      const referrer = figma.variables.getVariableById(variableId);
+      const collection = referrer && figma.variables.getVariableCollectionById(referrer.variableCollectionId);
+      impact.brokenAliases.push({
+        variableName: referrer?.name || variableId,
+        modeName: collection?.modes.find(m => m.modeId === modeId)?.name || modeId,
+        targetName: variable.name
+      });
+    });
+    const aliasedBy = Array.from(new Set(survivors.map(r => nameOf(r.variableId))));
+    if (aliasedBy.length) {
+      reasons.push(`aliased by ${aliasedBy.join(', ')}`);
+    }
+
+    const styleNames = Array.from(new Set(impact.danglingStyleBindings
+      .filter(binding => binding.variableId === id)
+      .map(binding => binding.styleName)));
+    if (styleNames.length) {
+      reasons.push(`bound in ${styleNames.join(', ')}`);
+    }
+
+    if (reasons.length) {
+      impact.referenced.push({ id, name: variable.name, reasons });
+    }
+  }
+
+  figma.variables.getLocalVariableCollections().forEach(collection => {
+    const remaining = collection.variableIds
+      .filter(id => !selected.has(id))
+      .map(id => figma.variables.getVariableById(id))
+      .filter((variable): variable is Variable => !!variable);
+    if (!remaining.length && collection.variableIds.some(id => selected.has(id))) {
+      impact.emptyCollections.push(collection.name);
+    }
+  });
+
+  return impact;
+}
+
+/**
+ * Modes nothing in the file switches to: not set on any page or layer, not
+ * the target of a SET_VARIABLE_MODE action, and not the collection default
+ */
+function findUnusedModes(index: VariableUsageIndex): UnusedMode[] {
+  const selected = new Set<string>();
+  [index.explicitModes, index.prototypeModes].forEach(modes => modes.forEach((modeIds, collectionId) => {
+    modeIds.forEach(modeId => selected.add(`${collectionId}:${modeId}`));
+  }));
+  figma.root.children.forEach(page => {
+    Object.entries(page.explicitVariableModes || {}).forEach(([collectionId, modeId]) => {
+      selected.add(`${collectionId}:${modeId}`);
+    });
+  });
+
+  const unused: UnusedMode[] = [];
+  figma.variables.getLocalVariableCollections().forEach(collection => {
+    const variables = collection.variableIds
+      .map(id => figma.variables.getVariableById(id))
+      .filter((variable): variable is Variable => !!variable);
+    const defaultMode = collection.modes.find(mode => mode.modeId === collection.defaultModeId);
+
+    collection.modes
+      .filter(mode => mode.modeId !== collection.defaultModeId && !selected.has(`${collection.id}:${mode.modeId}`))
+      .forEach(mode => {
+        const values = variables.filter(variable => mode.modeId in variable.valuesByMode);
+        unused.push({
+          collectionId: collection.id,
+          collectionName: collection.name,
+          modeId: mode.modeId,
+          modeName: mode.name,
+          defaultModeName: defaultMode?.name || collection.defaultModeId,
+          valueCount: values.length,
+          customValueCount: values.filter(variable =>
+            JSON.stringify(variable.valuesByMode[mode.modeId]) !== JSON.stringify(variable.valuesByMode[collection.defaultModeId])
+          ).length
+        });
+      });
+  });
+
+  return unused;
+}
+
+/**
+ * Removes modes reported by findUnusedModes, in one undo step. Each mode is
+ * checked against a fresh scan first, so a mode that came into use since the
+ * preview is kept
+ */
+async function removeUnusedModes(modes: { collectionId: string; modeId: string }[]): Promise<ModeRemovalResult> {
+  const index = await getVariableUsageIndex(true);
+  const stillUnused = new Map(findUnusedModes(index).map(mode => [`${mode.collectionId}:${mode.modeId}`, mode]));
+  const result: ModeRemovalResult = { removed: [], errors: [] };
+
+  figma.commitUndo();
+  for (const { collectionId, modeId } of modes) {
+    const mode = stillUnused.get(`${collectionId}:${modeId}`);
+    const collection = figma.variables.getVariableCollectionById(collectionId);
+    const name = mode ? `${mode.collectionName} / ${mode.modeName}` : modeId;
+    if (!mode || !collection) {
+      result.errors.push({ name, error: 'The mode is in use or no longer exists' });
+      continue;
+    }
+    try {
+      collection.removeMode(modeId);
+      result.removed.push(mode);
+      console.log(`🗑️ Removed mode ${name} (${mode.valueCount} values)`);
+    } catch (error) {
+      result.errors.push({ name, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+  figma.commitUndo();
+
+  usageIndex = null;
+  return result;
+}
+
+// Collection hygiene: an opt-in review of empty and unused collections and
+// dangling aliases, where each item is acted on separately
+
+async function describeCollectionIssue(collection: VariableCollection, localVariables: Variable[]): Promise<CollectionIssue> {
+  const members = new Set(collection.variableIds);
+  const published: string[] = [];
+  for (const variable of localVariables) {
+    if (members.has(variable.id) && await isPublishedVariable(variable)) {
+      published.push(variable.name);
+    }
+  }
+  return {
+    collectionId: collection.id,
+    collectionName: collection.name,
+    variableCount: collection.variableIds.length,
+    modeCount: collection.modes.length,
+    externalReferrers: localVariables
+      .filter(variable => !members.has(variable.id))
+      .filter(variable => Object.values(variable.valuesByMode).some(value => isVariableAlias(value) && members.has(value.id)))
+      .length,
+    published
+  };
+}
+
+/**
+ * Lists empty collections, collections none of whose variables are used, and
+ * aliases pointing at variables that no longer exist
+ */
+async function findCollectionIssues(index: VariableUsageIndex): Promise<CollectionHygiene> {
+  const localVariables = figma.variables.getLocalVariables();
+  const keepList = getKeepList();
+  const hygiene: CollectionHygiene = { emptyCollections: [], unusedCollections: [], danglingAliases: [] };
+
+  for (const collection of figma.variables.getLocalVariableCollections()) {
+    const variables = collection.variableIds
+      .map(id => figma.variables.getVariableById(id))
+      .filter((variable): variable is Variable => !!variable);
+
+    if (keepList.collectionIds.includes(collection.id)) {
+      // Kept collections are never offered for removal
+    } else if (!variables.length) {
+      hygiene.emptyCollections.push(await describeCollectionIssue(collection, localVariables));
+    } else if (!variables.some(variable => isVariableUsed(index, variable.id) || getProtectionReason(variable, keepList))) {
+      hygiene.unusedCollections.push(await describeCollectionIssue(collection, localVariables));
+    }
+
+    variables.forEach(variable => {
+      Object.entries(variable.valuesByMode).forEach(([modeId, value]) => {
+        if (!isVariableAlias(value) || figma.variables.getVariableById(value.id)) return;
+        hygiene.danglingAliases.push({
+          variableId: variable.id,
+          variableName: variable.name,
+          collectionName: collection.name,
+          resolvedType: variable.resolvedType,
+          modeId,
+          modeName: collection.modes.find(mode => mode.modeId === modeId)?.name || modeId,
+          missingId: value.id
+        });
+      });
+    });
+  }
+
+  return hygiene;
+}
+
+/**
+ * Removes a collection reported by findCollectionIssues, with its variables,
+ * in one undo step. A collection that came into use since the preview is kept,
+ * one with published variables is only removed with confirmPublished. Its
+ * variables are backed up first and can be restored into a recreated collection
+ * @throws When the backup cannot be stored; nothing is removed then
+ */
+async function removeCollection(collectionId: string, confirmPublished = false): Promise<string> {
+  const collection = figma.variables.getVariableCollectionById(collectionId);
+  if (!collection) {
+    throw new Error(`Collection not found: ${collectionId}`);
+  }
+
+  const { emptyCollections, unusedCollections } = await findCollectionIssues(await getVariableUsageIndex(true));
+  const issue = [...emptyCollections, ...unusedCollections].find(issue => issue.collectionId === collectionId);
+  if (!issue) {
+    throw new Error(`${collection.name} has variables in use and was not removed`);
+  }
+  if (issue.published.length && !confirmPublished) {
+    throw new Error(`${collection.name} has variables published to the library, confirm to remove it`);
+  }
+
+  saveDeletionBackup({
+    ...createDeletionBackup(collection.variableIds),
+    removedCollection: {
+      id: collection.id,
+      name: collection.name,
+      modes: collection.modes.map(({ modeId, name }) => ({ modeId, name }))
+    }
+  });
+
+  const name = collection.name;
+  figma.commitUndo();
+  collection.remove();
+  figma.commitUndo();
+  console.log(`🗑️ Removed collection: ${name}`);
+
+  usageIndex = null;
+  return name;
+}
+
+/**
+ * Points a dangling alias at another variable of the same type, or replaces
+ * it with a literal value
+ */
+function repairDanglingAlias(variableId: string, modeId: string, repair: AliasRepair): string {
+  const variable = figma.variables.getVariableById(variableId);
+  if (!variable) {
+    throw new Error(`Variable not found: ${variableId}`);
+  }
+  const current = variable.valuesByMode[modeId];
+  if (!isVariableAlias(current) || figma.variables.getVariableById(current.id)) {
+    throw new Error(`${variable.name} no longer has a dangling alias in this mode`);
+  }
+
+  if (repair.kind === 'variable') {
+    const target = figma.variables.getVariableById(repair.variableId);
+    if (!target || target.id === variable.id) {
+      throw new Error('Choose another existing variable');
+    }
+    if (target.resolvedType !== variable.resolvedType) {
+      throw new Error(`${target.name} is a ${target.resolvedType} variable, ${variable.name} needs ${variable.resolvedType}`);
+    }
+    variable.setValueForMode(modeId, figma.variables.createVariableAlias(target));
+    console.log(`🔗 ${variable.name} now aliases ${target.name}`);
+    return target.name;
+  }
+
+  const expected = { BOOLEAN: 'boolean', FLOAT: 'number', STRING: 'string', COLOR: 'object' }[variable.resolvedType];
+  if (typeof repair.value !== expected || isVariableAlias(repair.value)) {
+    throw new Error(`${variable.name} needs a ${variable.resolvedType} value`);
+  }
+  variable.setValueForMode(modeId, repair.value);
+  console.log(`🔧 ${variable.name} now has a literal value`);
+  return formatVariableValue(repair.value);
+}
+
+/**
+ * Sends the hygiene review to the UI, with the variables a dangling alias can
+ * be pointed at
+ */
+async function postCollectionIssues(): Promise<void> {
+  const index = await getVariableUsageIndex();
+  const keepList = getKeepList();
+  postToUI({
+    type: 'collection-issues',
+    issues: await findCollectionIssues(index),
+    variables: await Promise.all(figma.variables.getLocalVariables().map(variable => summarizeVariable(index, variable, keepList)))
+  });
+}
+
+// Replacing bindings: every binding of a source variable is either moved to a
+// target variable (merge) or replaced by its resolved literal (detach)
+
+/**
+ * Mode of a collection in effect at a node: the closest explicit mode on the
+ * node or its ancestors, else the collection default
+ */
+function getEffectiveModeId(node: BaseNode | null, collection: VariableCollection): string {
+  for (let current = node; current; current = current.parent) {
+    const modeId = (current as any).explicitVariableModes?.[collection.id];
+    if (modeId) return modeId;
+  }
+  return collection.defaultModeId;
+}
+
+/**
+ * Resolves a variable to a literal value as seen from a node, following alias
+ * chains with the mode in effect for each collection along the way
+ * @returns null when the chain is broken or loops
+ */
+function resolveVariableValue(variable: Variable, node: BaseNode | null, visited: Set<string> = new Set()): VariableValue | null {
+  if (visited.has(variable.id)) return null;
+  visited.add(variable.id);
+
+  const collection = figma.variables.getVariableCollectionById(variable.variableCollectionId);
+  if (!collection) return null;
+  const value = variable.valuesByMode[getEffectiveModeId(node, collection)];
+  if (isVariableAlias(value)) {
+    const target = figma.variables.getVariableById(value.id);
+    return target ? resolveVariableValue(target, node, visited) : null;
+  }
+  return value === undefined ? null : value;
+}
+
+/**
+ * What to do with each kind of binding of the source variable
+ */
+interface BindingReplacement {
+  nodeField(node: SceneNode, field: VariableBindableNodeField | VariableBindableTextField): void;
+  // Returns the paint, effect or grid with the field replaced
+  item(prop: typeof BINDABLE_ARRAY_PROPERTIES[number], item: any, field: string): any;
+  gradientStop(stop: ColorStop): ColorStop;
+  textRange(node: TextNode, start: number, end: number, field: VariableBindableTextField): void;
+  componentProperty(node: InstanceNode, name: string): void;
+  textStyle(style: TextStyle, field: VariableBindableTextField): void;
+  // New value for one mode of a variable that aliased the source, null when
+  // the source does not resolve for that mode
+  aliasValue(referrer: Variable, modeId: string): VariableValue | null;
+}
+
+/**
+ * Setter for one bound field of a paint, effect or layout grid; a null
+ * variable unbinds the field
+ */
+function getItemBinder(prop: typeof BINDABLE_ARRAY_PROPERTIES[number], variable: Variable | null): (item: any, field: string) => any {
+  switch (prop) {
+    case 'effects':
+      return (effect, field) => figma.variables.setBoundVariableForEffect(effect, field as VariableBindableEffectField, variable);
+    case 'layoutGrids':
+      return (grid, field) => figma.variables.setBoundVariableForLayoutGrid(grid, field as VariableBindableLayoutGridField, variable);
+    default:
+      return (paint, field) => figma.variables.setBoundVariableForPaint(paint, field as VariableBindablePaintField, variable);
+  }
+}
+
+/**
+ * Replacement that binds every usage to the target variable
+ */
+function bindTo(target: Variable): BindingReplacement {
+  return {
+    nodeField: (node, field) => (node as any).setBoundVariable(field, target),
+    item: (prop, item, field) => getItemBinder(prop, target)(item, field),
+    gradientStop: stop => ({ ...stop, boundVariables: { color: figma.variables.createVariableAlias(target) } }),
+    textRange: (node, start, end, field) => node.setRangeBoundVariable(start, end, field, target),
+    componentProperty: (node, name) => node.setProperties({ [name]: figma.variables.createVariableAlias(target) }),
+    textStyle: (style, field) => style.setBoundVariable(field, target),
+    aliasValue: () => figma.variables.createVariableAlias(target)
+  };
+}
+
+function toRGBA(value: VariableValue): RGBA {
+  const color = value as RGB | RGBA;
+  return { r: color.r, g: color.g, b: color.b, a: 'a' in color ? color.a : 1 };
+}
+
+/**
+ * Replacement that unbinds every usage and writes the source's value as
+ * resolved for the consumer: the node being detached, the defaults for
+ * styles, and the referrer's own mode for aliases
+ */
+function detachTo(source: Variable, consumer: BaseNode | null): BindingReplacement {
+  const value = resolveVariableValue(source, consumer);
+  if (value === null) {
+    throw new Error(`${source.name} does not resolve to a value`);
+  }
+  const pixels = { value: value as number, unit: 'PIXELS' as const };
+
+  return {
+    nodeField: (node, field) => {
+      const nodeAny = node as any;
+      nodeAny.setBoundVariable(field, null);
+      if (field === 'width' || field === 'height') {
+        nodeAny.resize(field === 'width' ? value : nodeAny.width, field === 'height' ? value : nodeAny.height);
+      } else {
+        nodeAny[field] = value;
+      }
+    },
+    item: (prop, item, field) => {
+      const unbound = getItemBinder(prop, null)(item, field);
+      if (field === 'color') {
+        const { r, g, b, a } = toRGBA(value);
+        // Paints keep alpha in their opacity, effects in the color itself
+        return prop === 'effects' ? { ...unbound, color: { r, g, b, a } } : { ...unbound, color: { r, g, b }, opacity: a };
+      }
+      if (field === 'offsetX' || field === 'offsetY') {
+        return { ...unbound, offset: { ...unbound.offset, [field === 'offsetX' ? 'x' : 'y']: value } };
+      }
+      return { ...unbound, [field]: value };
+    },
+    gradientStop: stop => ({ ...stop, color: toRGBA(value), boundVariables: {} }),
+    textRange: (node, start, end, field) => {
+      node.setRangeBoundVariable(start, end, field, null);
+      // Font family, style and weight keep the font already applied for this mode
+      switch (field) {
+        case 'fontSize': node.setRangeFontSize(start, end, value as number); break;
+        case 'letterSpacing': node.setRangeLetterSpacing(start, end, pixels); break;
+        case 'lineHeight': node.setRangeLineHeight(start, end, pixels); break;
+        case 'paragraphSpacing': node.setRangeParagraphSpacing(start, end, value as number); break;
+        case 'paragraphIndent': node.setRangeParagraphIndent(start, end, value as number); break;
+      }
+    },
+    componentProperty: (node, name) => node.setProperties({ [name]: value as string | boolean }),
+    textStyle: (style, field) => {
+      style.setBoundVariable(field, null);
+      switch (field) {
+        case 'fontSize': style.fontSize = value as number; break;
+        case 'letterSpacing': style.letterSpacing = pixels; break;
+        case 'lineHeight': style.lineHeight = pixels; break;
+        case 'paragraphSpacing': style.paragraphSpacing = value as number; break;
+        case 'paragraphIndent': style.paragraphIndent = value as number; break;
+      }
+    },
+    // The referrer's alias, resolved for its mode: an alias within the
+    // collection reads the source in that same mode, any other alias reads
+    // the default mode of the source's collection
+    aliasValue: (referrer, modeId) => resolveModeValue(referrer, modeId)
+  };
+}
+
+/**
+ * Returns a copy of paints, effects or grids with every binding to the source
+ * variable replaced, or null when none of them used it
+ */
+function replaceItemBindings(
+  items: unknown,
+  prop: typeof BINDABLE_ARRAY_PROPERTIES[number],
+  sourceId: string,
+  replacement: BindingReplacement
+): { items: any[]; moved: number } | null {
+  if (!Array.isArray(items)) return null;
+
+  let moved = 0;
+  const replaced = items.map((item: any) => {
+    let next = item;
+    Object.entries(item?.boundVariables || {}).forEach(([field, alias]) => {
+      if (isVariableAlias(alias) && alias.id === sourceId) {
+        next = replacement.item(prop, next, field);
+        moved++;
+      }
+    });
+    // Gradient stops have no setter of their own, so they are rebuilt in place
+    if (Array.isArray(next?.gradientStops)) {
+      next = {
+        ...next,
+        gradientStops: next.gradientStops.map((stop: ColorStop) => {
+          if (stop.boundVariables?.color?.id !== sourceId) return stop;
+          moved++;
+          return replacement.gradientStop(stop);
+        })
+      };
+    }
+    return next;
+  });
+  return moved ? { items: replaced, moved } : null;
+}
+
+/**
+ * Loads every font of a text layer; characters and typography can only
+ * change once they are loaded
+ */
+async function loadTextNodeFonts(node: TextNode): Promise<void> {
+  const fonts = node.fontName === figma.mixed
+    ? node.getRangeAllFontNames(0, node.characters.length)
+    : [node.fontName as FontName];
+  await Promise.all(fonts.map(font => figma.loadFontAsync(font)));
+}
+
+/**
+ * Replaces the typography and fill bindings of each styled range of a text node
+ */
+async function replaceTextRangeBindings(node: TextNode, sourceId: string, replacement: BindingReplacement): Promise<number> {
+  if (!getTextRangeAliases(node).some(({ id }) => id === sourceId)) return 0;
+
+  await loadTextNodeFonts(node);
+
+  let moved = 0;
+  node.getStyledTextSegments(['boundVariables', 'fills']).forEach(segment => {
+    for (const field of BINDABLE_TEXT_FIELDS) {
+      const alias = segment.boundVariables?.[field];
+      if (isVariableAlias(alias) && alias.id === sourceId) {
+        replacement.textRange(node, segment.start, segment.end, field);
+        moved++;
+      }
+    }
+    const fills = replaceItemBindings(segment.fills, 'fills', sourceId, replacement);
+    if (fills) {
+      node.setRangeFills(segment.start, segment.end, fills.items);
+      moved += fills.moved;
+    }
+  });
+  return moved;
+}
+
+/**
+ * Replaces every binding of a node to the source variable: node fields,
+ * paints, effects, grids, text ranges and component properties
+ * @returns Number of bindings replaced
+ */
+async function replaceNodeBindings(node: SceneNode, sourceId: string, replacement: BindingReplacement): Promise<number> {
+  const nodeAny = node as any;
+  const boundVariables = nodeAny.boundVariables || {};
+  const readsTextRanges = node.type === 'TEXT' && typeof node.getStyledTextSegments === 'function';
+  let moved = 0;
+
+  const fields = (readsTextRanges ? [...BINDABLE_NODE_FIELDS] : [...BINDABLE_NODE_FIELDS, ...BINDABLE_TEXT_FIELDS])
+    .filter(field => {
+      const alias = boundVariables[field];
+      return isVariableAlias(alias) && alias.id === sourceId;
+    });
+  if (fields.length && node.type === 'TEXT') {
+    await loadTextNodeFonts(node);
+  }
+  fields.forEach(field => {
+    replacement.nodeField(node, field);
+    moved++;
+  });
+
+  for (const prop of BINDABLE_ARRAY_PROPERTIES) {
+    if (readsTextRanges && prop === 'fills') continue;
+    const result = replaceItemBindings(nodeAny[prop], prop, sourceId, replacement);
+    if (result) {
+      nodeAny[prop] = result.items;
+      moved += result.moved;
+    }
+  }
+
+  if (readsTextRanges) {
+    moved += await replaceTextRangeBindings(node as TextNode, sourceId, replacement);
+  }
+
+  if (node.type === 'INSTANCE') {
+    Object.entries(node.componentProperties || {}).forEach(([name, prop]) => {
+      if (prop.boundVariables?.value?.id === sourceId) {
+        replacement.componentProperty(node, name);
+        moved++;
+      }
+    });
+  }
+
+  return moved;
+}
+
+/**
+ * Replaces the bindings a local style declares to the source variable
+ */
+async function replaceStyleBindings(style: BaseStyle, sourceId: string, replacement: BindingReplacement): Promise<number> {
+  switch (style.type) {
+    case 'PAINT': {
+      const paintStyle = style as PaintStyle;
+      const result = replaceItemBindings(paintStyle.paints, 'fills', sourceId, replacement);
+      if (result) paintStyle.paints = result.items;
+      return result?.moved || 0;
+    }
+    case 'EFFECT': {
+      const effectStyle = style as EffectStyle;
+      const result = replaceItemBindings(effectStyle.effects, 'effects', sourceId, replacement);
+      if (result) effectStyle.effects = result.items;
+      return result?.moved || 0;
+    }
+    case 'GRID': {
+      const gridStyle = style as GridStyle;
+      const result = replaceItemBindings(gridStyle.layoutGrids, 'layoutGrids', sourceId, replacement);
+      if (result) gridStyle.layoutGrids = result.items;
+      return result?.moved || 0;
+    }
+    case 'TEXT': {
+      const textStyle = style as TextStyle;
+      const fields = BINDABLE_TEXT_FIELDS.filter(field => textStyle.boundVariables?.[field]?.id === sourceId);
+      if (!fields.length) return 0;
+      await figma.loadFontAsync(textStyle.fontName);
+      fields.forEach(field => replacement.textStyle(textStyle, field));
+      return fields.length;
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Replaces every binding of the source variable on nodes, styles and aliases,
+ * then optionally deletes it. Runs as one undo step.
+ * @param replacementFor Replacement to use for a consumer node, null for styles and aliases
+ * @param confirmPublished Whether deleting a source published to the library was confirmed
+ */
+async function replaceVariableUsages(
+  source: Variable,
+  replacementFor: (consumer: BaseNode | null) => BindingReplacement,
+  deleteSource: boolean,
+  confirmPublished = false
+): Promise<ReplacementResult> {
+  if (deleteSource) {
+    const protectedReason = getProtectionReason(source, getKeepList());
+    if (protectedReason) {
+      throw new Error(`${source.name} is protected (${protectedReason}) and cannot be deleted`);
+    }
+    if (!confirmPublished && await isPublishedVariable(source)) {
+      throw new Error(`${source.name} is published to the library, confirm to delete it`);
+    }
+  }
+  const index = await getVariableUsageIndex(true);
+  const result: ReplacementResult = { pages: [], styles: 0, aliases: 0, skipped: 0, errors: [], deleted: false };
+  // Styles and aliases share the consumer-less replacement; build it and the
+  // alias values before touching anything so an unresolvable source fails
+  // without side effects
+  const shared = replacementFor(null);
+  const aliasUpdates = findAliasReferrers(figma.variables.getLocalVariables(), source.id).map(({ variableId, modeId }) => {
+    const referrer = figma.variables.getVariableById(variableId)!;
+    const value = shared.aliasValue(referrer, modeId);
+    if (value === null) {
+      throw new Error(`${source.name} does not resolve to a value for ${referrer.name}`);
+    }
+    return { referrer, modeId, value };
+  });
+
+  figma.commitUndo();
+
+  // Style and alias usages are replaced at their origin below, not node by node
+  const direct = getVariableUsages(index, source.id).filter(record => record.kind === 'direct');
+  for (const usage of groupUsagesByNode(direct)) {
+    const node = figma.getNodeById(usage.nodeId) as SceneNode | null;
+    if (!node) continue;
+    try {
+      const moved = await replaceNodeBindings(node, source.id, replacementFor(node));
+      if (!moved) continue;
+      const page = result.pages.find(p => p.pageId === usage.pageId);
+      if (page) {
+        page.moved += moved;
+      } else {
+        result.pages.push({ pageId: usage.pageId, pageName: usage.pageName, moved });
+      }
+    } catch (error) {
+      console.warn(`⚠️ Error replacing bindings of ${usage.nodeName}: ${error}`);
+      result.errors.push({ name: usage.nodeName, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  const styles: BaseStyle[] = [
+    ...figma.getLocalPaintStyles(),
+    ...figma.getLocalTextStyles(),
+    ...figma.getLocalEffectStyles(),
+    ...figma.getLocalGridStyles()
+  ];
+  for (const style of styles) {
+    try {
+      result.styles += await replaceStyleBindings(style, source.id, shared);
+    } catch (error) {
+      console.warn(`⚠️ Error replacing bindings of style ${style.name}: ${error}`);
+      result.errors.push({ name: style.name, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  aliasUpdates.forEach(({ referrer, modeId, value }) => {
+    try {
+      referrer.setValueForMode(modeId, value);
+      result.aliases++;
+    } catch (error) {
+      console.warn(`⚠️ Error replacing alias of ${referrer.name}: ${error}`);
+      result.errors.push({ name: referrer.name, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  });
+
+  // Prototype actions cannot be rewritten here, so they keep the source alive
+  result.skipped = getVariableUsages(index, source.id).filter(record => record.kind === 'prototype').length;
+
+  // Anything left bound to the source would be left bound to nothing
+  if (deleteSource && !result.skipped && !result.errors.length) {
+    saveDeletionBackup(createDeletionBackup([source.id]));
+    source.remove();
+    result.deleted = true;
+  }
+
+  usageIndex = null;
+  figma.commitUndo();
+  return result;
+}
+
+/**
+ * Whether a variable reaches another through a chain of aliases, in any mode
+ */
+function aliasesTransitively(aliasTargets: Map<string, Set<string>>, fromId: string, toId: string): boolean {
+  const visited = new Set<string>();
+  const pending = [fromId];
+  while (pending.length) {
+    const id = pending.pop()!;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    for (const target of aliasTargets.get(id) || []) {
+      if (target === toId) return true;
+      pending.push(target);
+    }
+  }
+  return false;
+}
+
+/**
+ * Rebinds every usage of a source variable to a target of the same type,
+ * including styles and aliases, then optionally deletes the source
+ */
+async function mergeVariables(
+  sourceId: string,
+  targetId: string,
+  deleteSource: boolean,
+  confirmPublished = false
+): Promise<MergeResult> {
+  const source = figma.variables.getVariableById(sourceId);
+  const target = figma.variables.getVariableById(targetId);
+  if (!source || !target) {
+    throw new Error('Variable not found');
+  }
+  if (source.id === target.id) {
+    throw new Error('Pick two different variables');
+  }
+  if (source.resolvedType !== target.resolvedType) {
+    throw new Error(`Cannot merge a ${source.resolvedType} variable into a ${target.resolvedType} variable`);
+  }
+  // Directly or through other variables: after the merge it would alias itself
+  if (aliasesTransitively(createUsageIndex(DOCUMENT_SCOPE).aliasTargets, target.id, source.id)) {
+    throw new Error(`${target.name} aliases ${source.name}; give it its own value before merging`);
+  }
+
+  const sourceName = source.name;
+  const result = await replaceVariableUsages(source, () => bindTo(target), deleteSource, confirmPublished);
+  return { ...result, sourceName, targetId: target.id, targetName: target.name };
+}
+
+/**
+ * Replaces every usage of a variable with its resolved literal value and
+ * deletes it
+ */
+async function detachVariable(variableId: string, confirmPublished = false): Promise<DetachResult> {
+  const source = figma.variables.getVariableById(variableId);
+  if (!source) {
+    throw new Error('Variable not found');
+  }
+
+  const sourceName = source.name;
+  const result = await replaceVariableUsages(source, consumer => detachTo(source, consumer), true, confirmPublished);
+  return { ...result, sourceId: variableId, sourceName };
+}
+
+// Keep-list: variables that stay unused on purpose. Shared plugin data keeps
+// it with the file for every editor, and the @keep tag and name prefix let
+// designers protect variables without opening the plugin
+
+const KEEP_LIST_NAMESPACE = 'select_unused_variables';
+const KEEP_LIST_KEY = 'keep-list';
+const KEEP_TAG = /(^|\s)@keep\b/;
+const EMPTY_KEEP_LIST: KeepList = { variableIds: [], groups: [], collectionIds: [], prefix: '', releasedIds: [] };
+
+function getKeepList(): KeepList {
+  const stored = figma.root.getSharedPluginData(KEEP_LIST_NAMESPACE, KEEP_LIST_KEY);
+  if (!stored) return { ...EMPTY_KEEP_LIST };
+  try {
+    return { ...EMPTY_KEEP_LIST, ...JSON.parse(stored) };
+  } catch (error) {
+    console.warn(`⚠️ Unreadable keep-list: ${error}`);
+    return { ...EMPTY_KEEP_LIST };
+  }
+}
+
+/**
+ * Stores the keep-list with blank and repeated entries dropped
+ */
+function saveKeepList(keepList: KeepList): KeepList {
+  const unique = (values: string[]) => Array.from(new Set(values.map(value => value.trim()).filter(Boolean)));
+  const normalized: KeepList = {
+    variableIds: unique(keepList.variableIds),
+    groups: unique(keepList.groups.map(group => group.replace(/\/+$/, ''))),
+    collectionIds: unique(keepList.collectionIds),
+    prefix: keepList.prefix.trim(),
+    releasedIds: unique(keepList.releasedIds)
+  };
+  figma.root.setSharedPluginData(KEEP_LIST_NAMESPACE, KEEP_LIST_KEY, JSON.stringify(normalized));
+  return normalized;
+}
+
+/**
+ * Tells why the keep-list protects a variable
+ * @returns The reason, or null when the variable may be deleted
+ */
+function getProtectionReason(variable: Variable, keepList: KeepList): string | null {
+  if (keepList.releasedIds.includes(variable.id)) return null;
+  if (keepList.variableIds.includes(variable.id)) return 'on the keep-list';
+  if (keepList.collectionIds.includes(variable.variableCollectionId)) {
+    const collection = figma.variables.getVariableCollectionById(variable.variableCollectionId);
+    return `collection ${collection?.name || variable.variableCollectionId} is kept`;
+  }
+  const group = keepList.groups.find(path => variable.name.startsWith(`${path}/`));
+  if (group) return `group ${group} is kept`;
+  if (KEEP_TAG.test(variable.description || '')) return 'tagged @keep';
+  if (keepList.prefix && variable.name.split('/').some(segment => segment.startsWith(keepList.prefix))) {
+    return `name starts with ${keepList.prefix}`;
+  }
+  return null;
+}
+
+/**
+ * Protects a single variable, or unprotects it even when a group, collection,
+ * tag or prefix would keep it
+ */
+function setVariableProtection(variableId: string, protect: boolean): KeepList {
+  const variable = figma.variables.getVariableById(variableId);
+  if (!variable) {
+    throw new Error(`Variable not found: ${variableId}`);
+  }
+
+  const keepList = getKeepList();
+  keepList.variableIds = keepList.variableIds.filter(id => id !== variableId);
+  keepList.releasedIds = keepList.releasedIds.filter(id => id !== variableId);
+  const protectedByConvention = !!getProtectionReason(variable, keepList);
+  if (protect && !protectedByConvention) keepList.variableIds.push(variableId);
+  if (!protect && protectedByConvention) keepList.releasedIds.push(variableId);
+
+  console.log(`${protect ? '🛡️ Protected' : '🔓 Unprotected'} variable: ${variable.name}`);
+  return saveKeepList(keepList);
+}
+
+/**
+ * Sends the keep-list to the UI with the names of what it refers to
+ */
+function postKeepList(keepList: KeepList): void {
+  const variables = [...keepList.variableIds, ...keepList.releasedIds]
+    .map(id => figma.variables.getVariableById(id))
+    .filter((variable): variable is Variable => !!variable)
+    .map(variable => ({
+      id: variable.id,
+      name: variable.name,
+      collection: figma.variables.getVariableCollectionById(variable.variableCollectionId)?.name || '[unknown-collection]'
+    }));
+  postToUI({
+    type: 'keep-list',
+    keepList,
+    collections: figma.variables.getLocalVariableCollections().map(({ id, name }) => ({ id, name })),
+    variables
+  });
+}
+
+// Deletion backups: every deletion run is serialized to document plugin data
+// first, so deleted variables can be restored without rolling back history
+
+const BACKUP_KEY_PREFIX = 'deleted-variables:';
+// Older deletion runs are pruned so backups do not grow the file forever
+const MAX_DELETION_BACKUPS = 20;
+
+/**
+ * Serializes variables about to be deleted, with the aliases that point at them
+ */
+function createDeletionBackup(variableIds: string[]): DeletionBackup {
+  const localVariables = figma.variables.getLocalVariables();
+  const variables: VariableBackup[] = [];
+
+  for (const id of variableIds) {
+    const variable = figma.variables.getVariableById(id);
+    if (!variable) continue;
+
+    const collection = figma.variables.getVariableCollectionById(variable.variableCollectionId);
+    const referrers = findAliasReferrers(localVariables, id);
+
+    variables.push({
+      id: variable.id,
+      name: variable.name,
+      collectionId: variable.variableCollectionId,
+      collectionName: collection?.name || '[unknown-collection]',
+      resolvedType: variable.resolvedType,
+      valuesByMode: { ...variable.valuesByMode },
+      modeNames: (collection?.modes || []).reduce(
+        (names, mode) => ({ ...names, [mode.modeId]: mode.name }),
+        {} as { [modeId: string]: string }
+      ),
+      scopes: [...variable.scopes],
+      codeSyntax: { ...variable.codeSyntax },
+      description: variable.description,
+      hiddenFromPublishing: variable.hiddenFromPublishing,
+      referrers
+    });
+  }
+
+  const deletedAt = Date.now();
+  return { id: `${BACKUP_KEY_PREFIX}${deletedAt}`, deletedAt, variables };
+}
+
+/**
+ * Stores a deletion run; a run with nothing left to restore is removed, and
+ * only the MAX_DELETION_BACKUPS most recent runs are kept
+ * @throws When the document refuses the data, e.g. because it is too large
+ */
+function saveDeletionBackup(backup: DeletionBackup): void {
+  figma.root.setPluginData(backup.id, backup.variables.length ? JSON.stringify(backup) : '');
+  getDeletionBackups().slice(MAX_DELETION_BACKUPS).forEach(old => {
+    console.log(`🧹 Pruning deletion backup ${old.id}`);
+    figma.root.setPluginData(old.id, '');
+  });
+}
+
+/**
+ * Lists the stored deletion runs, most recent first
+ */
+function getDeletionBackups(): DeletionBackup[] {
+  return figma.root.getPluginDataKeys()
+    .filter(key => key.startsWith(BACKUP_KEY_PREFIX))
+    .map(key => {
+      try {
+        return JSON.parse(figma.root.getPluginData(key)) as DeletionBackup;
+      } catch (error) {
+        console.warn(`⚠️ Unreadable deletion backup ${key}: ${error}`);
+        return null;
+      }
+    })
+    .filter((backup): backup is DeletionBackup => !!backup)
+    .sort((a, b) => b.deletedAt - a.deletedAt);
+}
+
+/**
+ * Creates a collection in place of a removed one, with modes of the same names
+ * so restored values find their mode
+ */
+function recreateCollection(removed: RemovedCollection): VariableCollection {
+  const collection = figma.variables.createVariableCollection(removed.name);
+  removed.modes.forEach((mode, i) => {
+    if (i === 0) {
+      collection.renameMode(collection.modes[0].modeId, mode.name);
+    } else {
+      collection.addMode(mode.name);
+    }
+  });
+  console.log(`♻️ Recreated collection ${removed.name}`);
+  return collection;
+}
+
+/**
+ * Recreates backed up variables in their original collection and modes, or a
+ * recreated one when the collection was removed, and re-points the aliases
+ * that referenced them. Restored variables are removed from the backup.
+ */
+function restoreVariables(backupId: string, variableIds: string[]): RestoreResult {
+  const backup = getDeletionBackups().find(b => b.id === backupId);
+  if (!backup) {
+    throw new Error('Backup not found');
+  }
+
+  const result: RestoreResult = { restored: [], errors: [] };
+  // Original id → recreated variable, so aliases between restored variables follow
+  const restored = new Map<string, Variable>();
+  const selected = backup.variables.filter(v => variableIds.includes(v.id));
+  const removed = backup.removedCollection;
+  let recreated: VariableCollection | null = null;
+
+  for (const item of selected) {
+    try {
+      let collection = figma.variables.getVariableCollectionById(item.collectionId);
+      if (!collection && removed && removed.id === item.collectionId) {
+        collection = recreated = recreated || recreateCollection(removed);
+      }
+      if (!collection) {
+        throw new Error(`Collection "${item.collectionName}" no longer exists`);
+      }
+      const variable = figma.variables.createVariable(item.name, collection, item.resolvedType);
+      variable.scopes = item.scopes;
+      variable.description = item.description;
+      variable.hiddenFromPublishing = item.hiddenFromPublishing;
+      (Object.entries(item.codeSyntax) as [CodeSyntaxPlatform, string][]).forEach(([platform, value]) => {
+        variable.setVariableCodeSyntax(platform, value);
+      });
+      restored.set(item.id, variable);
+    } catch (error) {
+      result.errors.push({ name: item.name, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  // Values are set once every variable exists, so restored aliases can point at each other
+  for (const item of selected) {
+    const variable = restored.get(item.id);
+    if (!variable) continue;
+
+    const collection = figma.variables.getVariableCollectionById(variable.variableCollectionId)!;
+    Object.entries(item.valuesByMode).forEach(([modeId, value]) => {
+      // Modes are matched by id, then by name when the mode was recreated
+      const mode = collection.modes.find(m => m.modeId === modeId) ||
+        collection.modes.find(m => m.name === item.modeNames[modeId]);
+      if (!mode) {
+        console.warn(`⚠️ Mode ${item.modeNames[modeId] || modeId} no longer exists for ${item.name}`);
+        return;
+      }
+
+      if (isVariableAlias(value)) {
+        const target = restored.get(value.id) || figma.variables.getVariableById(value.id);
+        if (!target) {
+          console.warn(`⚠️ Alias target ${value.id} of ${item.name} no longer exists`);
+          return;
+        }
+        variable.setValueForMode(mode.modeId, figma.variables.createVariableAlias(target));
+      } else {
+        variable.setValueForMode(mode.modeId, value);
+      }
+    });
+
+    item.referrers.forEach(({ variableId, modeId }) => {
+      if (restored.has(variableId)) return;
+      const referrer = figma.variables.getVariableById(variableId);
+      if (referrer && modeId in referrer.valuesByMode) {
+        referrer.setValueForMode(modeId, figma.variables.createVariableAlias(variable));
+      }
+    });
+
+    result.restored.push(item.name);
+    console.log(`♻️ Restored variable: ${item.name}`);
+  }
+
+  // Once the collection is recreated, the rest of the backup points at it so a
+  // later restore reuses it instead of creating another one
+  const remaining = backup.variables
+    .filter(v => !restored.has(v.id))
+    .map(v => recreated && removed && v.collectionId === removed.id ? { ...v, collectionId: recreated.id } : v);
+  saveDeletionBackup({
+    ...backup,
+    variables: remaining,
+    ...(recreated && removed ? { removedCollection: { ...removed, id: recreated.id } } : {})
+  });
+  return result;
+}
+
+/**
+ * Removes each item in turn, carrying on past failures
+ * @param lookup Finds the live variable or style for an id
+ * @returns One outcome per item, in the order given
+ */
+function deleteItems(
+  items: Pick<VariableResult, 'id' | 'name'>[],
+  lookup: (id: string) => { name: string; remove(): void } | null
+): DeletionOutcome[] {
+  return items.map(({ id, name }) => {
+    const item = lookup(id);
+    if (!item) {
+      console.warn(`⚠️ Not found: ${name} (${id})`);
+      return { id, name, status: 'not-found' as const };
+    }
+
+    try {
+      console.log(`🗑️ Deleting: ${item.name}`);
+      item.remove();
+      if (lookup(id)) {
+        throw new Error('Still exists after deletion attempt');
+      }
+      return { id, name, status: 'deleted' as const };
+    } catch (error) {
+      console.error(`❌ Error deleting ${name}:`, error);
+      return {
+        id,
+        name,
+        status: 'failed' as const,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  });
+}
+
+/**
+ * Reports per-item deletion outcomes to the UI and as a toast
+ */
+function postDeletionResult(outcomes: DeletionOutcome[], [singular, plural]: [string, string]): void {
+  const deleted = outcomes.filter(o => o.status === 'deleted').length;
+  // Items that were already gone are not errors, there is nothing to retry
+  const errors = outcomes.filter(o => o.status === 'failed').length;
+
+  postToUI({
+    type: 'delete-result',
+    success: true,
+    stats: { total: outcomes.length, success: deleted, errors },
+    outcomes
+  });
+
+  const message = `✅ ${deleted} ${deleted === 1 ? singular : plural} successfully deleted`;
+  if (errors) {
+    figma.notify(`${message}, ${errors} could not be deleted`, { error: true });
+  } else {
+    figma.notify(message);
+  }
+}
+
+// Event Handlers
+figma.ui.onmessage = async (msg: UIMessage) => {
   console.log('📨 Plugin received message:', msg.type, msg);
 
-  switch (msg.type) {
-    case 'init':
+  switch (msg.type) {
+    case 'init':
+      try {
+        console.log('🚀 Inicializando plugin...');
+        
+        postSelectionVariables();
+
+        postToUI({
+          type: 'pages',
+          pages: figma.root.children.map(page => ({ id: page.id, name: page.name })),
+          currentPageId: figma.currentPage.id
+        });
+
+        const collections = figma.variables.getLocalVariableCollections();
+        console.log(`📚 Collections found: ${collections.length}`);
+        
+        if (!collections || collections.length === 0) {
+          console.log('⚠️ No collections found');
+          figma.notify('No collections of variables found');
+          postToUI({ 
+            type: 'collections',
+            collections: []
+          });
+          return;
+        }
+        
+        const mappedCollections = collections.map(collection => {
+          console.log(`📝 Processing collection: ${collection.name} (${collection.id})`);
+          return {
+            id: collection.id,
+            name: collection.name,
+            variableIds: collection.variableIds
+          };
+        });
+        
+        postToUI({ 
+          type: 'collections',
+          collections: mappedCollections
+        });
+        
+      } catch (error) {
+        console.error('❌ Error during initialization:', error);
+        figma.notify('Error initializing the plugin', { error: true });
+        postToUI({ 
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+      break;
+
+    case 'start-search':
+    case 'auto-analyze':
+      try {
+        const scope = msg.scope || DOCUMENT_SCOPE;
+        const result = msg.type === 'start-search' && msg.target === 'styles'
+          ? await analyzeStyles(scope)
+          : await analyzeCollections(msg.collections, scope, msg.filter);
+        
+        postToUI({
+          type: msg.type === 'start-search' ? 'complete' : 'auto-analysis-result',
+          ...result
+        });
+      } catch (error) {
+        console.error('❌ Error during analysis:', error);
+        postToUI({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+      break;
+
+    case 'get-variable-types':
+      try {
+        const variables = figma.variables.getLocalVariables();
+        const types = new Set(variables.map(v => v.resolvedType));
+        const scopes = new Set<VariableScope>();
+        variables.forEach(v => v.scopes.forEach(scope => scopes.add(scope)));
+        const modes = new Set<string>();
+        figma.variables.getLocalVariableCollections().forEach(c => c.modes.forEach(mode => modes.add(mode.name)));
+        
+        postToUI({
+          type: 'variable-types',
+          types: Array.from(types),
+          scopes: Array.from(scopes),
+          modes: Array.from(modes)
+        });
+      } catch (error) {
+        console.error('❌ Error getting types:', error);
+      }
+      break;
+
+    case 'cancel-analysis':
+      cancelActiveScans();
+      break;
+
+    case 'clear-cache':
+      try {
+        const result = await clearUsageCache();
+        const message = describeClearedCache(result);
+        figma.notify(`✨ ${message}`);
+        postToUI({ type: 'cache-cleared', result, message });
+      } catch (error) {
+        console.error('❌ Error clearing cache:', error);
+        postToUI({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+      break;
+
+    case 'print-unused':
+      try {
+        const index = await getVariableUsageIndex(false, msg.scope);
+        const report = await createReportFrame(
+          await buildReportRows(index, msg.variableIds),
+          describeScanScope(msg.scope),
+          describeVariableFilter(msg.filter || EMPTY_FILTER)
+        );
+        figma.currentPage = report.parent as PageNode;
+        figma.viewport.scrollAndZoomIntoView([report]);
+        figma.notify(`✅ Report updated with ${msg.variableIds.length} unused variables`);
+      } catch (error) {
+        console.error('❌ Error creating report:', error);
+        figma.notify('Failed to print unused variables', { error: true });
+      }
+      break;
+
+    case 'export-report':
+      try {
+        const index = await getVariableUsageIndex(false, msg.scope);
+        const rows = await buildReportRows(index, msg.variableIds);
+        const extension = msg.format === 'markdown' ? 'md' : msg.format;
+        postToUI({
+          type: 'report-file',
+          filename: `unused-variables.${extension}`,
+          mimeType: { json: 'application/json', csv: 'text/csv', markdown: 'text/markdown' }[msg.format],
+          content: formatReport(rows, msg.format, buildReportMetadata(index, msg.filter))
+        });
+        console.log(`📤 Exported ${rows.length} variables as ${msg.format}`);
+      } catch (error) {
+        console.error('❌ Error exporting report:', error);
+        postToUI({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+      break;
+
+    case 'delete-variables':
+      try {
+        console.log('🗑️ Starting variable deletion:', msg);
+        
+        if (!msg.variables?.length) {
+          throw new Error('No variables to delete');
+        }
+
+        // The results may come from a stale usage cache, so the file is
+        // scanned again. Referrers are deleted before the variables they alias
+        // so dead chains never leave a broken alias behind
+        const index = await getVariableUsageIndex(true);
+        const byId = new Map(msg.variables.map(v => [v.id, v]));
+        const variablesToDelete = orderByAliasDependency(Array.from(byId.keys()), index.aliasTargets)
+          .map(id => byId.get(id)!);
+        usageIndex = null;
+
+        // Variables bound since the results were shown are kept, protected
+        // ones are only deleted once unprotected, published ones only when
+        // the deletion was confirmed for them
+        const keepList = getKeepList();
+        const protectedOutcomes: DeletionOutcome[] = [];
+        const deletable: Pick<VariableResult, 'id' | 'name'>[] = [];
+        for (const item of variablesToDelete) {
+          const { id, name } = item;
+          const variable = figma.variables.getVariableById(id);
+          const protectedReason = variable && getProtectionReason(variable, keepList);
+          const layers = groupUsagesByNode(getVariableUsages(index, id)).length;
+          if (layers) {
+            protectedOutcomes.push({ id, name, status: 'failed', error: `Used by ${layers} ${layers === 1 ? 'layer' : 'layers'}` });
+          } else if (protectedReason) {
+            protectedOutcomes.push({ id, name, status: 'failed', error: `Protected: ${protectedReason}` });
+          } else if (variable && !msg.confirmPublished && await isPublishedVariable(variable)) {
+            protectedOutcomes.push({ id, name, status: 'failed', error: 'Published to the library, confirm to delete' });
+          } else {
+            deletable.push(item);
+          }
+        }
+
+        // The backup is stored before anything is removed; if it cannot be
+        // saved nothing is deleted
+        figma.commitUndo();
+        const backup = createDeletionBackup(deletable.map(v => v.id));
+        saveDeletionBackup(backup);
+        const outcomes = [...deleteItems(deletable, id => figma.variables.getVariableById(id)), ...protectedOutcomes];
+
+        // Only what was actually deleted can be restored later
+        const deletedIds = new Set(outcomes.filter(o => o.status === 'deleted').map(o => o.id));
+        try {
+          saveDeletionBackup({ ...backup, variables: backup.variables.filter(v => deletedIds.has(v.id)) });
+        } catch (error) {
+          console.warn(`⚠️ Could not trim deletion backup ${backup.id}: ${error}`);
+        }
+        figma.commitUndo();
+        console.log(`💾 Backed up ${deletedIds.size} deleted variables`);
+
+        postDeletionResult(outcomes, ['variable', 'variables']);
+      } catch (error) {
+        console.error('❌ Error during deletion:', error);
+        postToUI({ 
+          type: 'delete-result',
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        figma.notify('Error deleting variables', { error: true });
+      }
+      break;
+
+    case 'delete-styles':
+      try {
+        console.log('🗑️ Starting style deletion:', msg);
+
+        if (!msg.styles?.length) {
+          throw new Error('No styles to delete');
+        }
+
+        // The results may come from a stale usage cache, so styles applied
+        // since then are found again and kept
+        const index = await getVariableUsageIndex(true);
+        const usedOutcomes: DeletionOutcome[] = [];
+        const deletable = msg.styles.filter(({ id, name }) => {
+          const layers = new Set((index.styleUsages.get(id) || []).map(usage => usage.nodeId)).size;
+          if (layers) {
+            usedOutcomes.push({ id, name, status: 'failed', error: `Used by ${layers} ${layers === 1 ? 'layer' : 'layers'}` });
+          }
+          return !layers;
+        });
+
+        usageIndex = null;
+        figma.commitUndo();
+        const outcomes = [...deleteItems(deletable, id => figma.getStyleById(id)), ...usedOutcomes];
+        figma.commitUndo();
+
+        postDeletionResult(outcomes, ['style', 'styles']);
+      } catch (error) {
+        console.error('❌ Error during style deletion:', error);
+        postToUI({
+          type: 'delete-result',
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        figma.notify('Error deleting styles', { error: true });
+      }
+      break;
+
+    case 'list-variables':
+      try {
+        const index = await getVariableUsageIndex();
+        const keepList = getKeepList();
+        postToUI({
+          type: 'variable-list',
+          variables: await Promise.all(figma.variables.getLocalVariables().map(variable => summarizeVariable(index, variable, keepList)))
+        });
+      } catch (error) {
+        console.error('❌ Error listing variables:', error);
+        postToUI({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+      break;
+
+    case 'find-usages':
+      try {
+        const variable = figma.variables.getVariableById(msg.variableId);
+        if (!variable) {
+          throw new Error(`Variable not found: ${msg.variableId}`);
+        }
+
+        // Usages are always looked up file-wide, whatever scope the last analysis used
+        const index = await getVariableUsageIndex();
+        const usages = groupUsagesByNode(getVariableUsages(index, variable.id));
+        console.log(`🔎 ${variable.name}: ${usages.length} usages`);
+
+        postToUI({
+          type: 'variable-usages',
+          variable: await summarizeVariable(index, variable),
+          pages: groupUsagesByPage(usages)
+        });
+      } catch (error) {
+        console.error('❌ Error finding usages:', error);
+        postToUI({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+      break;
+
+    case 'select-nodes':
+      try {
+        const selected = selectNodesOnPage(msg.pageId, msg.nodeIds);
+        if (selected < msg.nodeIds.length) {
+          figma.notify(`${msg.nodeIds.length - selected} layers no longer exist`);
+        }
+      } catch (error) {
+        console.error('❌ Error selecting usages:', error);
+        figma.notify(error instanceof Error ? error.message : 'Error selecting layers', { error: true });
+      }
+      break;
+
+    case 'preview-deletion':
+      try {
+        const impact = await analyzeDeletionImpact(msg.variables.map(v => v.id));
+        console.log(`🔮 Deletion impact: ${impact.referenced.length} referenced, ${impact.brokenAliases.length} broken aliases`);
+        postToUI({ type: 'deletion-impact', impact });
+      } catch (error) {
+        console.error('❌ Error analyzing deletion impact:', error);
+        postToUI({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+      break;
+
+    case 'find-unused-modes':
+      try {
+        const index = await getVariableUsageIndex();
+        postToUI({ type: 'unused-modes', modes: findUnusedModes(index) });
+      } catch (error) {
+        console.error('❌ Error finding unused modes:', error);
+        postToUI({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+      break;
+
+    case 'remove-modes':
+      try {
+        const result = await removeUnusedModes(msg.modes);
+        postToUI({ type: 'modes-removed', ...result });
+        postToUI({ type: 'unused-modes', modes: findUnusedModes(await getVariableUsageIndex()) });
+      } catch (error) {
+        console.error('❌ Error removing modes:', error);
+        postToUI({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+      break;
+
+    case 'find-collection-issues':
       try {
-        console.log('🚀 Inicializando plugin...');
-        
-        const collections = figma.variables.getLocalVariableCollections();
-        console.log(`📚 Collections found: ${collections.length}`);
-        
-        if (!collections || collections.length === 0) {
-          console.log('⚠️ No collections found');
-          figma.notify('No collections of variables found');
-          figma.ui.postMessage({ 
-            type: 'collections',
-            collections: []
-          });
-          return;
-        }
-        
-        const mappedCollections = collections.map(collection => {
-          console.log(`📝 Processing collection: ${collection.name} (${collection.id})`);
-          return {
-            id: collection.id,
-            name: collection.name,
-            variableIds: collection.variableIds
-          };
+        await postCollectionIssues();
+      } catch (error) {
+        console.error('❌ Error checking collections:', error);
+        postToUI({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error'
         });
-        
-        figma.ui.postMessage({ 
-          type: 'collections',
-          collections: mappedCollections
+      }
+      break;
+
+    case 'remove-collection':
+      try {
+        const name = await removeCollection(msg.collectionId, msg.confirmPublished);
+        figma.notify(`🗑️ Collection ${name} removed`);
+        await postCollectionIssues();
+      } catch (error) {
+        console.error('❌ Error removing collection:', error);
+        postToUI({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error'
         });
-        
+      }
+      break;
+
+    case 'repair-alias':
+      try {
+        const replacement = repairDanglingAlias(msg.variableId, msg.modeId, msg.repair);
+        figma.notify(`🔧 Alias repaired with ${replacement}`);
+        await postCollectionIssues();
       } catch (error) {
-        console.error('❌ Error during initialization:', error);
-        figma.notify('Error initializing the plugin', { error: true });
-        figma.ui.postMessage({ 
+        console.error('❌ Error repairing alias:', error);
+        postToUI({
           type: 'error',
           message: error instanceof Error ? error.message : 'Unknown error'
         });
       }
       break;
 
-    case 'get-variable-types':
+    case 'get-keep-list':
       try {
-        const variables = figma.variables.getLocalVariables();
-        const types = new Set(variables.map(v => v.resolvedType));
-        
-        figma.ui.postMessage({
-          type: 'variable-types',
-          types: Array.from(types)
+        postKeepList(getKeepList());
+      } catch (error) {
+        console.error('❌ Error reading keep-list:', error);
+        postToUI({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error'
         });
+      }
+      break;
+
+    case 'save-keep-list':
+      try {
+        postKeepList(saveKeepList(msg.keepList));
+        figma.notify('🛡️ Keep-list saved');
       } catch (error) {
-        console.error('❌ Error getting types:', error);
+        console.error('❌ Error saving keep-list:', error);
+        postToUI({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
       }
       break;
 
-    case 'clear-cache':
+    case 'set-protection':
       try {
-        variableCache.clear();
-        figma.notify('✨ Cache limpo com sucesso');
+        postKeepList(setVariableProtection(msg.variableId, msg.protect));
       } catch (error) {
-        console.error('❌ Error clearing cache:', error);
-        figma.notify('✨ Cache cleared successfully');
+        console.error('❌ Error changing protection:', error);
+        postToUI({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
       }
       break;
 
-    case 'print-unused':
+    case 'merge-variables':
       try {
-        const unusedVariables = await findUnusedVariables([]);
-        const textNode = await createTextNode(unusedVariables);
-        if (textNode) {
-          figma.viewport.scrollAndZoomIntoView([textNode]);
+        const result = await mergeVariables(msg.sourceId, msg.targetId, msg.deleteSource, msg.confirmPublished);
+        const moved = result.pages.reduce((sum, page) => sum + page.moved, 0) + result.styles + result.aliases;
+        console.log(`🔀 Merged ${result.sourceName} into ${result.targetName}: ${moved} bindings moved`);
+        postToUI({ type: 'merge-result', ...result });
+        if (result.errors.length) {
+          figma.notify(`🔀 ${moved} moved to ${result.targetName}, ${result.errors.length} could not be moved`, { error: true });
+        } else {
+          figma.notify(`🔀 ${moved} ${moved === 1 ? 'binding' : 'bindings'} moved to ${result.targetName}`);
         }
       } catch (error) {
-        figma.notify('Failed to print unused variables');
+        console.error('❌ Error merging variables:', error);
+        postToUI({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
       }
       break;
 
-    case 'delete-variables':
+    case 'detach-variable':
       try {
-        console.log('🗑️ Starting variable deletion:', msg);
-        
-        if (!msg.variables?.length) {
-          throw new Error('No variables to delete');
+        const result = await detachVariable(msg.variableId, msg.confirmPublished);
+        const moved = result.pages.reduce((sum, page) => sum + page.moved, 0) + result.styles + result.aliases;
+        console.log(`✂️ Detached ${result.sourceName}: ${moved} bindings replaced`);
+        postToUI({ type: 'detach-result', ...result });
+        if (result.errors.length) {
+          figma.notify(`✂️ ${result.sourceName} kept: ${result.errors.length} bindings could not be replaced`, { error: true });
+        } else {
+          figma.notify(result.deleted
+            ? `✂️ ${result.sourceName} detached from ${moved} ${moved === 1 ? 'binding' : 'bindings'} and deleted`
+            : `✂️ ${result.sourceName} detached, but prototype actions still use it`);
         }
+      } catch (error) {
+        console.error('❌ Error detaching variable:', error);
+        postToUI({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+      break;
 
-        // Process each variable in the array
-        for (const variable of msg.variables) {
-          try {
-            console.log(`\n🔍 Looking for variable with ID: ${variable.id}`);
-            
-            // Get the variable using the ID
-            const variableToDelete = figma.variables.getVariableById(variable.id);
-            
-            if (!variableToDelete) {
-              throw new Error(`Variable not found: ${variable.name} (${variable.id})`);
-            }
-            
-            console.log(`🗑️ Deleting variable: ${variableToDelete.name}`);
-            
-            // Try to delete
-            await variableToDelete.remove();
-            
-            // Check if it was deleted
-            await new Promise(resolve => setTimeout(resolve, 500));
-            const stillExists = figma.variables.getVariableById(variable.id);
-            
-            if (stillExists) {
-              throw new Error('Variable still exists after deletion attempt');
-            }
-            
-            console.log(`✅ Variable successfully deleted: ${variableToDelete.name}`);
-          } catch (error) {
-            console.error(`❌ Error deleting variable:`, error);
-            throw error;
-          }
-        }
-        
-        // Send results to UI
-        figma.ui.postMessage({ 
-          type: 'delete-result',
-          success: true,
-          stats: {
-            total: msg.variables.length,
-            success: msg.variables.length,
-            errors: 0
-          }
+    case 'list-backups':
+      try {
+        postToUI({ type: 'backups', backups: getDeletionBackups() });
+      } catch (error) {
+        console.error('❌ Error reading deletion backups:', error);
+        postToUI({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error'
         });
-        
-        figma.notify(`✅ ${msg.variables.length} ${msg.variables.length === 1 ? 'variable' : 'variables'} successfully deleted`);
-        
+      }
+      break;
+
+    case 'restore-variables':
+      try {
+        const result = restoreVariables(msg.backupId, msg.variableIds);
+        usageIndex = null;
+        postToUI({ type: 'restore-result', ...result });
+        postToUI({ type: 'backups', backups: getDeletionBackups() });
+        figma.notify(`♻️ ${result.restored.length} ${result.restored.length === 1 ? 'variable' : 'variables'} restored`);
       } catch (error) {
-        console.error('❌ Error during deletion:', error);
-        figma.ui.postMessage({ 
-          type: 'delete-result',
-          success: false,
-          error: error instanceof Error ? error.message : 'Unknown error'
+        console.error('❌ Error restoring variables:', error);
+        postToUI({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error'
         });
-        figma.notify('Error deleting variables', { error: true });
       }
       break;
 
@@ -803,7 +4002,7 @@ figma.ui.onmessage = async (msg) => {
         const designMap = await mapDesignVariables();
         
         // Send results to UI
-        figma.ui.postMessage({
+        postToUI({
           type: 'design-variables-mapped',
           data: {
             colors: Array.from(designMap.colors.entries()),
@@ -813,9 +4012,6 @@ figma.ui.onmessage = async (msg) => {
           }
         });
 
-        // Execute collections cleanup
-        await cleanupCollections(designMap);
-        
         figma.notify('✨ Variable mapping completed');
       } catch (error) {
         console.error('❌ Error during mapping:', error);
@@ -823,227 +4019,21 @@ figma.ui.onmessage = async (msg) => {
       }
       break;
 
-    case 'variableschanged':
+    case 'find-duplicates':
       try {
-        const designMap = await mapDesignVariables();
-        updateStatus({
-          total: designMap.colors.size + designMap.typography.size + designMap.effects.size + designMap.other.size
-        });
+        const groups = await findDuplicateVariables(msg.options);
+        postToUI({ type: 'duplicates', groups, options: msg.options });
       } catch (error) {
-        console.error('❌ Error updating status:', error);
+        console.error('❌ Error finding duplicate variables:', error);
+        postToUI({
+          type: 'error',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
       }
       break;
   }
 };
 
-// Helper function to check references more robustly
-async function checkVariableReferences(variable: Variable): Promise<boolean> {
-  try {
-    const collections = figma.variables.getLocalVariableCollections();
-    
-    // Check references in other variables
-    for (const collection of collections) {
-      for (const varId of collection.variableIds) {
-        if (varId === variable.id) continue;
-        
-        const var2 = figma.variables.getVariableById(varId);
-        if (!var2) continue;
-
-        // Check all references in all modes
-        for (const [modeId, value] of Object.entries(var2.valuesByMode)) {
-          if (typeof value === 'object' && value !== null) {
-            const valueObj = value as any;
-            // Compare clean IDs (without the VariableID: prefix)
-            if (valueObj.type === 'VARIABLE_ALIAS' && 
-                valueObj.id.replace(/^VariableID:/, '') === variable.id) {
-              console.log(`🔗 Variable ${variable.name} is referenced by ${var2.name}`);
-              return true;
-            }
-          }
-        }
-      }
-    }
-
-    // Check references in components and instances
-    for (const page of figma.root.children) {
-      const hasReferences = await checkNodeForReferences(page, variable.id);
-      if (hasReferences) {
-        console.log(`🔗 Variable ${variable.name} is referenced in page ${page.name}`);
-        return true;
-      }
-    }
-
-    console.log(`✨ Variable ${variable.name} has no references`);
-    return false;
-  } catch (error) {
-    console.error('❌ Error checking variable references:', error);
-    return true; // In case of error, assume there are references for safety
-  }
-}
-
-// Helper function to check references in nodes
-async function checkNodeForReferences(node: BaseNode, variableId: string): Promise<boolean> {
-  try {
-    // Check if the node has bound variables
-    if ('boundVariables' in node) {
-      const boundVars = (node as any).boundVariables;
-      if (boundVars) {
-        for (const prop in boundVars) {
-          const binding = boundVars[prop];
-          if (Array.isArray(binding)) {
-            for (const b of binding) {
-              // Compare clean IDs
-              if (b?.type === 'VARIABLE_ALIAS' && 
-                  b.id.replace(/^VariableID:/, '') === variableId) {
-                console.log(`🔗 Found reference in node ${node.name} (${node.type})`);
-                return true;
-              }
-            }
-          } else if (binding?.type === 'VARIABLE_ALIAS' && 
-                     binding.id.replace(/^VariableID:/, '') === variableId) {
-            console.log(`🔗 Found reference in node ${node.name} (${node.type})`);
-            return true;
-          }
-        }
-      }
-    }
-
-    // Recursively check children
-    if ('children' in node) {
-      for (const child of (node as any).children) {
-        const hasReferences = await checkNodeForReferences(child, variableId);
-        if (hasReferences) return true;
-      }
-    }
-
-    return false;
-  } catch (error) {
-    console.error(`❌ Error checking node ${node.name} for references:`, error);
-    return false;
-  }
-}
-
-/**
- * Checks all variable bindings in design elements
- * @returns Set with IDs of variables in use
- */
-async function getActiveVariableReferences(): Promise<Set<string>> {
-  const usedVariableIds = new Set<string>();
-  const propertiesToCheck = ['fills', 'strokes', 'effects', 'textStyleId'];
-
-  const processNode = async (node: SceneNode) => {
-    try {
-      // Check each property that may have bound variables
-      for (const prop of propertiesToCheck) {
-        try {
-          const boundVariable = node.getBoundVariable(prop as VariableBindableType);
-          if (boundVariable) {
-            const varId = boundVariable.id;
-            usedVariableIds.add(varId);
-            usedVariableIds.add(varId.replace(/^VariableID:/, '')); // Version without prefix
-            console.log(`🔗 Bound variable found:
-              Node: ${node.name}
-              Property: ${prop}
-              ID: ${varId}
-            `);
-          }
-        } catch (propError) {
-          // Some properties may not be available on all node types
-          continue;
-        }
-      }
-
-      // Check specific text properties
-      if (node.type === 'TEXT') {
-        const textNode = node as TextNode;
-        try {
-          const textStyleVariable = textNode.getBoundVariable('textStyleId');
-          if (textStyleVariable) {
-            usedVariableIds.add(textStyleVariable.id);
-            usedVariableIds.add(textStyleVariable.id.replace(/^VariableID:/, ''));
-          }
-        } catch (textError) {
-          console.warn(`⚠️ Error checking text style in ${node.name}:`, textError);
-        }
-      }
-
-      // Recursively check children
-      if ('children' in node) {
-        for (const child of node.children) {
-          await processNode(child as SceneNode);
-        }
-      }
-
-    } catch (nodeError) {
-      console.warn(`⚠️ Error processing node ${node.name}:`, nodeError);
-    }
-  };
-
-  // Process all pages
-  console.log('🔍 Starting bound variables verification...');
-  for (const page of figma.root.children) {
-    console.log(`📄 Processing page: ${page.name}`);
-    for (const node of page.children) {
-      await processNode(node as SceneNode);
-    }
-  }
-
-  // Compare with all local variables
-  const allVariables = figma.variables.getLocalVariables();
-  console.log(`\n Summary:
-    Total variables: ${allVariables.length}
-    Variables in use: ${usedVariableIds.size}
-    Variables not used: ${allVariables.length - usedVariableIds.size}
-  `);
-
-  return usedVariableIds;
-}
-
-/**
- * Filter unused variables comparing with IDs set of used variables
- * @param usedIds Set with IDs of variables in use
- * @returns Array with unused variables
- */
-async function filterUnusedVariables(usedIds: Set<string>): Promise<Variable[]> {
-  console.log('🔍 Starting unused variables filtering...');
-  
-  try {
-    const allVariables = figma.variables.getLocalVariables();
-    updateStatus({ total: allVariables.length });
-    
-    let analyzed = 0;
-    let unused = 0;
-    
-    const unusedVariables = allVariables.filter(variable => {
-      analyzed++;
-      updateStatus({ analyzed });
-      
-      if (variable.isDeleted) {
-        console.log(`⏭️ Ignoring deleted variable: ${variable.name}`);
-        return false;
-      }
-      
-      const originalId = variable.id;
-      const cleanId = variable.id.replace(/^VariableID:/, '');
-      const isUsed = usedIds.has(originalId) || usedIds.has(cleanId);
-      
-      if (!isUsed) {
-        unused++;
-        updateStatus({ unused });
-        console.log(`🎯 Unused variable found: ${variable.name} (${originalId})`);
-      }
-      
-      return !isUsed;
-    });
-    
-    return unusedVariables;
-    
-  } catch (error) {
-    console.error('❌ Error filtering variables:', error);
-    throw new Error(`Failed to filter variables: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-}
-
 // Interfaces for design variable mapping
 interface DesignVariableMap {
   colors: Map<string, VariableInfo>;
@@ -1055,7 +4045,11 @@ interface DesignVariableMap {
 interface VariableUsageMap {
   nodeId: string;
   nodeName: string;
+  nodeType: string;
+  pageId: string;
+  pageName: string;
   properties: string[];
+  kinds: VariableUsageKind[];
   modeId?: string;
 }
 
@@ -1088,7 +4082,11 @@ async function mapDesignVariables(): Promise<DesignVariableMap> {
 
         // Create extended variable information
         const varInfo: VariableInfo = {
-          ...variable,
+          id: variable.id,
+          name: variable.name,
+          collection: collection.name,
+          variableCollectionId: variable.variableCollectionId,
+          scopes: variable.scopes,
           usages: [],
           collectionName: collection.name,
           modes: {}
@@ -1112,9 +4110,9 @@ async function mapDesignVariables(): Promise<DesignVariableMap> {
         // Categorize variable based on type
         if (variable.resolvedType === 'COLOR') {
           designMap.colors.set(variable.id, varInfo);
-        } else if (variable.resolvedType === 'FLOAT' && variable.scopes.includes('TEXT')) {
+        } else if (variable.scopes.some(scope => TYPOGRAPHY_SCOPES.includes(scope))) {
           designMap.typography.set(variable.id, varInfo);
-        } else if (variable.resolvedType === 'EFFECT') {
+        } else if (variable.scopes.some(scope => EFFECT_SCOPES.includes(scope))) {
           designMap.effects.set(variable.id, varInfo);
         } else {
           designMap.other.set(variable.id, varInfo);
@@ -1144,127 +4142,119 @@ async function mapDesignVariables(): Promise<DesignVariableMap> {
  * Maps the usage of variables in components and instances
  */
 async function mapComponentUsage(designMap: DesignVariableMap): Promise<void> {
-  console.log('\n🔍 Mapeando uso em componentes...');
+  console.log('\n🔍 Mapping usage in components...');
 
-  const processNode = async (node: SceneNode) => {
-    try {
-      // Check bound variables
-      if ('boundVariables' in node) {
-        const boundVars = node.boundVariables as Record<string, VariableBinding | VariableBinding[]>;
-        
-        for (const [property, binding] of Object.entries(boundVars)) {
-          const bindings = Array.isArray(binding) ? binding : [binding];
-          
-          for (const b of bindings) {
-            if (b?.type === 'VARIABLE_ALIAS' && b.id) {
-              // Register variable usage
-              const usage: VariableUsageMap = {
-                nodeId: node.id,
-                nodeName: node.name,
-                properties: [property]
-              };
-
-              // Add to appropriate category
-              for (const [category, map] of Object.entries(designMap)) {
-                if (map.has(b.id)) {
-                  const varInfo = map.get(b.id);
-                  if (varInfo) {
-                    varInfo.usages.push(usage);
-                  }
-                }
-              }
-            }
-          }
-        }
-      }
+  const index = await getVariableUsageIndex();
 
-      // Process children recursively
-      if ('children' in node) {
-        for (const child of node.children) {
-          await processNode(child as SceneNode);
-        }
-      }
-    } catch (error) {
-      console.warn(`⚠️ Error processing node ${node.name}:`, error);
-    }
-  };
+  for (const map of Object.values(designMap) as Map<string, VariableInfo>[]) {
+    map.forEach((varInfo, variableId) => {
+      // Group the usage records of each variable by node
+      varInfo.usages = groupUsagesByNode(getVariableUsages(index, variableId));
+    });
+  }
+}
 
-  // Process all pages
-  for (const page of figma.root.children) {
-    console.log(`📄 Processing page: ${page.name}`);
-    for (const node of page.children) {
-      await processNode(node as SceneNode);
+/**
+ * Resolves the value a variable has in one mode, following aliases. An alias
+ * into the same collection keeps the mode, any other alias falls back to the
+ * default mode of the target's collection
+ */
+function resolveModeValue(variable: Variable, modeId: string, visited: Set<string> = new Set()): VariableValue | null {
+  if (visited.has(variable.id)) return null;
+  visited.add(variable.id);
+
+  const value = variable.valuesByMode[modeId];
+  if (isVariableAlias(value)) {
+    const target = figma.variables.getVariableById(value.id);
+    if (!target) return null;
+    if (target.variableCollectionId === variable.variableCollectionId) {
+      return resolveModeValue(target, modeId, visited);
     }
+    const collection = figma.variables.getVariableCollectionById(target.variableCollectionId);
+    return collection ? resolveModeValue(target, collection.defaultModeId, visited) : null;
   }
+  return value === undefined ? null : value;
 }
 
 /**
- * Removes empty collections and cleans broken references
+ * Compares two resolved values within the given tolerances
  */
-async function cleanupCollections(designMap: DesignVariableMap): Promise<void> {
-  console.log('\n🧹 Starting collections cleanup...');
-  
-  try {
-    const collections = figma.variables.getLocalVariableCollections();
-    
-    for (const collection of collections) {
-      console.log(`\n🗂️ Checking collection: ${collection.name}`);
-      
-      // Check if the collection is empty
-      if (collection.variableIds.length === 0) {
-        console.log(`🗑️ Removing empty collection: ${collection.name}`);
-        collection.remove();
-        continue;
-      }
+function isSameResolvedValue(a: VariableValue | null, b: VariableValue | null, options: DuplicateOptions): boolean {
+  if (a === null || b === null) return a === b;
+  if (typeof a === 'number' && typeof b === 'number') {
+    return Math.abs(a - b) <= options.floatTolerance;
+  }
+  if (typeof a === 'object' && typeof b === 'object' && 'r' in a && 'r' in b) {
+    const alphaA = 'a' in a ? a.a : 1;
+    const alphaB = 'a' in b ? b.a : 1;
+    const distance = Math.sqrt(
+      [a.r - b.r, a.g - b.g, a.b - b.b, alphaA - alphaB].reduce((sum, d) => sum + (d * 255) ** 2, 0)
+    );
+    return distance <= options.colorDistance;
+  }
+  return a === b;
+}
 
-      // Check variables with broken references
-      let hasValidVariables = false;
-      for (const varId of collection.variableIds) {
-        const variable = figma.variables.getVariableById(varId);
-        if (!variable) continue;
+/**
+ * Groups variables whose resolved values match in every mode. Variables are
+ * only compared within their design category and resolved type, and values
+ * are matched mode by mode in collection order, so both collections need
+ * the same number of modes. With tolerances, a variable joins the first
+ * group whose first variable is close enough
+ * @returns Groups of two or more variables, most used first
+ */
+async function findDuplicateVariables(options: DuplicateOptions): Promise<DuplicateGroup[]> {
+  console.log('🔁 Looking for duplicate variables...');
 
-        // Check all references in all modes
-        for (const [modeId, value] of Object.entries(variable.valuesByMode)) {
-          if (typeof value === 'object' && value !== null && 'type' in value) {
-            if (value.type === 'VARIABLE_ALIAS') {
-              const referencedVar = figma.variables.getVariableById(value.id);
-              if (!referencedVar) {
-                console.log(`⚠️ Broken reference found in ${variable.name}`);
-                // Clear broken reference
-                variable.valuesByMode[modeId] = null;
-              }
-            }
-          }
-          if (value !== null) hasValidVariables = true;
-        }
-      }
+  // Rebuild first so the mapping below counts current usages
+  const index = await getVariableUsageIndex(true);
+  const designMap = await mapDesignVariables();
+  const keepList = getKeepList();
+  const groups: DuplicateGroup[] = [];
 
-      // Remove collection if it has no valid variables
-      if (!hasValidVariables) {
-        console.log(`🗑️ Removing collection without valid variables: ${collection.name}`);
-        collection.remove();
-      }
-    }
+  for (const category of Object.keys(designMap) as (keyof DesignVariableMap)[]) {
+    const candidates: { variable: Variable; values: (VariableValue | null)[]; group: DuplicateGroup | null }[] = [];
 
-    console.log('✨ Collections cleanup completed');
-    
-  } catch (error) {
-    console.error('❌ Error during cleanup:', error);
-    throw new Error(`Cleanup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-}
+    for (const varInfo of designMap[category].values()) {
+      const variable = figma.variables.getVariableById(varInfo.id);
+      const collection = figma.variables.getVariableCollectionById(varInfo.variableCollectionId);
+      if (!variable || !collection) continue;
 
-// Cache System for Verifications
+      const values = collection.modes
+        .filter(mode => mode.modeId in varInfo.modes)
+        .map(mode => resolveModeValue(variable, mode.modeId));
 
-// Global cache with 5 minutes expiration time
+      const match = candidates.find(candidate =>
+        candidate.variable.resolvedType === variable.resolvedType &&
+        candidate.values.length === values.length &&
+        candidate.values.every((value, i) => isSameResolvedValue(value, values[i], options))
+      );
 
-// ... existing code ...
+      if (!match) {
+        candidates.push({ variable, values, group: null });
+        continue;
+      }
 
-// Execute verification
-// ... existing code ...
+      if (!match.group) {
+        match.group = {
+          category,
+          resolvedType: match.variable.resolvedType,
+          values: match.values.map(value => value === null ? '—' : formatVariableValue(value)),
+          variables: [await summarizeVariable(index, match.variable, keepList)],
+          totalUsage: 0
+        };
+        groups.push(match.group);
+      }
+      match.group.variables.push(await summarizeVariable(index, variable, keepList));
+    }
+  }
 
-// Filter by collection
-// ... existing code ...
+  groups.forEach(group => {
+    group.variables.sort((a, b) => b.usageCount - a.usageCount);
+    group.totalUsage = group.variables.reduce((sum, variable) => sum + variable.usageCount, 0);
+  });
+  groups.sort((a, b) => b.totalUsage - a.totalUsage);
 
-console.log('✅ Validação concluída:', result);
-console.log('✅ Validation completed:', result);
\ No newline at end of file
+  console.log(`✅ Found ${groups.length} groups of duplicate variables`);
+  return groups;
+}